@@ -1,488 +1,796 @@
-import { useState, useMemo } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, LineChart, Line, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
-import Papa from 'papaparse';
-import { Coffee, CreditCard, DollarSign, TrendingUp, Users, Clock, BarChart3, Upload } from 'lucide-react';
-
-interface SalesRecord {
-  date: string;
-  datetime: string;
-  cash_type: string;
-  card: string;
-  money: number;
-  coffee_name: string;
-  hour: number;
-}
+import { useState, useMemo, useRef, type ReactNode } from 'react';
+import { Coffee, CreditCard, DollarSign, TrendingUp, Users, Clock, BarChart3, Upload, FilePlus, Database, FileDown } from 'lucide-react';
+import AnomalyPanel from './components/AnomalyPanel';
+import BasketPanel from './components/BasketPanel';
+import CatalogueEditor from './components/CatalogueEditor';
+import ChartWidget from './components/ChartWidget';
+import ComparisonPicker from './components/ComparisonPicker';
+import CrossFilterBar from './components/CrossFilterBar';
+import CurrencyPanel from './components/CurrencyPanel';
+import CustomerPanel from './components/CustomerPanel';
+import DashboardGrid from './components/DashboardGrid';
+import DatasetLibrary from './components/DatasetLibrary';
+import DateRangePicker from './components/DateRangePicker';
+import ForecastPanel from './components/ForecastPanel';
+import HeatmapPanel from './components/HeatmapPanel';
+import ImportReportPanel from './components/ImportReportPanel';
+import KpiCard from './components/KpiCard';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import MappingWizard from './components/MappingWizard';
+import SourceList from './components/SourceList';
+import TimeSeriesPanel from './components/TimeSeriesPanel';
+import TransactionExplorer from './components/TransactionExplorer';
+import ViewManager from './components/ViewManager';
+import { useAnalytics } from './hooks/useAnalytics';
+import { useCrossFilter } from './hooks/useCrossFilter';
+import { useDatasetLibrary, type DashboardFilters } from './hooks/useDatasetLibrary';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { useI18n } from './i18n/context';
+import { loadAlertRules, saveAlertRules, type AlertRule, type InsightLink } from './lib/anomalies';
+import { loadBasketGap, saveBasketGap } from './lib/baskets';
+import {
+  loadCatalogue,
+  PRODUCT_CATEGORIES,
+  saveCatalogue,
+  type ProductCatalogue,
+  type ProductCategory,
+  type ProductGrouping
+} from './lib/catalogue';
+import {
+  computeDelta,
+  DEFAULT_COMPARISON,
+  overlayComparison,
+  resolveComparisonRange,
+  type Comparison
+} from './lib/comparison';
+import {
+  EMPTY_CROSS_FILTER,
+  toggleCrossFilter,
+  type CrossFilterDimension
+} from './lib/crossFilter';
+import {
+  convertRecords,
+  DEFAULT_CURRENCY,
+  displayCurrency,
+  loadCurrencySettings,
+  saveCurrencySettings,
+  sourceCurrencies,
+  type CurrencySettings
+} from './lib/currency';
+import {
+  DEFAULT_DATE_RANGE,
+  getDataBounds,
+  resolveDateRange,
+  type DateRange,
+  type ResolvedDateRange
+} from './lib/dateRange';
+import { FORECAST_WEEKS } from './lib/forecast';
+import {
+  DEFAULT_LAYOUT,
+  loadLayout,
+  saveLayout,
+  updateWidget,
+  type ChartType,
+  type DashboardLayout,
+  type DashboardView,
+  type WidgetConfig,
+  type WidgetId
+} from './lib/layout';
+import { generatePdfReport } from './lib/report';
+import { mergeSources } from './lib/sources';
+import type { MappingResult } from './lib/mapping';
+import type { DataSource, SalesRecord } from './types';
+
+// Milliseconds the basket gap has to stay unchanged while it is typed before baskets are detected again.
+const BASKET_GAP_DELAY = 400;
 
 const SalesAnalyticsDashboard = () => {
-  const [data, setData] = useState<SalesRecord[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { t, formatNumber, formatMoney, formatDate, formatDateTime } = useI18n();
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<{ id: string; file: File }[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [reportSourceIds, setReportSourceIds] = useState<string[]>([]);
+  const [catalogue, setCatalogue] = useState<ProductCatalogue>(loadCatalogue);
+  const [productGrouping, setProductGrouping] = useState<ProductGrouping>('product');
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(loadCurrencySettings);
+  const [dateRange, setDateRange] = useState<DateRange>(DEFAULT_DATE_RANGE);
+  const [comparison, setComparison] = useState<Comparison>(DEFAULT_COMPARISON);
+  const [crossFilter, setCrossFilter] = useCrossFilter();
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<DashboardLayout>(loadLayout);
+  const [editingLayout, setEditingLayout] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [forecastWeeks, setForecastWeeks] = useState(FORECAST_WEEKS[0]);
+  const [basketGap, setBasketGap] = useState(loadBasketGap);
+  const settledBasketGap = useDebouncedValue(basketGap, BASKET_GAP_DELAY);
+  const dashboardRef = useRef<HTMLDivElement>(null);
+
+  const filters = useMemo(
+    () => ({ dateRange, comparison, productGrouping }),
+    [dateRange, comparison, productGrouping]
+  );
+
+  const restoreDashboard = (restored: DataSource[], restoredFilters: DashboardFilters | null) => {
+    setSources(restored);
+    setReportSourceIds([]);
+    if (restoredFilters) {
+      setDateRange(restoredFilters.dateRange);
+      setComparison(restoredFilters.comparison);
+      setProductGrouping(restoredFilters.productGrouping);
+    }
+  };
+
+  const library = useDatasetLibrary({ sources, filters, onRestore: restoreDashboard });
+
+  const { records: mergedData, duplicates } = useMemo(() => mergeSources(sources), [sources]);
+  // Before conversion, which leaves out sales without an exchange rate.
+  const sourceBounds = useMemo(() => getDataBounds(mergedData), [mergedData]);
+  const currencies = useMemo(
+    () => Object.fromEntries(sources.map(source => [source.id, source.currency])),
+    [sources]
+  );
+  const currencyOf = useMemo(
+    () => (record: SalesRecord) => currencies[record.source] ?? DEFAULT_CURRENCY,
+    [currencies]
+  );
+  const conversion = useMemo(
+    () => convertRecords(mergedData, currencyOf, currencySettings),
+    [mergedData, currencyOf, currencySettings]
+  );
+  const allData = conversion.records;
+  const shownCurrency = displayCurrency(sources, currencySettings);
+  // The dashboard is hidden while sources mix currencies, so the fallback is never shown.
+  const currency = shownCurrency ?? DEFAULT_CURRENCY;
+  const money = (value: number) => formatMoney(value, currency);
+  const dataBounds = useMemo(() => getDataBounds(allData), [allData]);
+  const resolvedDateRange = useMemo(() => resolveDateRange(dateRange, dataBounds), [dateRange, dataBounds]);
+  const comparisonRange = useMemo(
+    () => resolveComparisonRange(comparison, resolvedDateRange, dataBounds),
+    [comparison, resolvedDateRange, dataBounds]
+  );
+  const loading = pendingFiles.length > 0;
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setLoading(true);
-    setError(null);
-
-    Papa.parse(file, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        try {
-          const processedData = results.data
-            .filter((row): row is Record<string, unknown> =>
-              row !== null && typeof row === 'object'
-            )
-            .map((row): SalesRecord => {
-              const datetime = new Date(String(row.datetime || ''));
-              return {
-                date: String(row.date || ''),
-                datetime: String(row.datetime || ''),
-                cash_type: String(row.cash_type || ''),
-                card: String(row.card || ''),
-                money: parseFloat(String(row.money)) || 0,
-                coffee_name: String(row.coffee_name || ''),
-                hour: datetime.getHours()
-              };
-            })
-            .filter(record => record.coffee_name && record.money > 0); // Filter out invalid records
-
-          setData(processedData);
-          setLoading(false);
-        } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-          setError(`Failed to process CSV file: ${errorMessage}`);
-          setLoading(false);
-        }
-      },
-      error: (error) => {
-        setError(`CSV parsing error: ${error.message}`);
-        setLoading(false);
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setImportedCount(0);
+    setReportSourceIds([]);
+    setPendingFiles(files.map(file => ({ id: crypto.randomUUID(), file })));
+  };
+
+  const nextPendingFile = () => {
+    setImportedCount(prev => prev + 1);
+    setPendingFiles(prev => prev.slice(1));
+  };
+
+  const confirmImport = ({ records, rejected }: MappingResult, sourceCurrency: string) => {
+    const [{ id, file }] = pendingFiles;
+    setSources(prev => [...prev, {
+      id,
+      name: file.name,
+      records,
+      enabled: true,
+      currency: sourceCurrency,
+      report: {
+        fileName: file.name,
+        totalRows: records.length + rejected.length,
+        acceptedRows: records.length,
+        rejected
       }
-    });
+    }]);
+    setReportSourceIds(prev => [...prev, id]);
+    nextPendingFile();
   };
 
-  const analytics = useMemo(() => {
-    if (data.length === 0) return null;
+  const toggleSource = (id: string) => {
+    setSources(prev => prev.map(source =>
+      source.id === id ? { ...source, enabled: !source.enabled } : source
+    ));
+  };
 
-    const totalRevenue = data.reduce((sum, record) => sum + record.money, 0);
-    const totalOrders = data.length;
-    const avgOrderValue = totalRevenue / totalOrders;
-    const uniqueCustomers = new Set(data.map(record => record.card)).size;
+  const removeSource = (id: string) => {
+    setSources(prev => prev.filter(source => source.id !== id));
+    setReportSourceIds(prev => prev.filter(sourceId => sourceId !== id));
+  };
 
-    const coffeeStats = data.reduce((acc, record) => {
-      const coffee = record.coffee_name;
-      if (!acc[coffee]) {
-        acc[coffee] = { count: 0, revenue: 0, avgPrice: 0 };
-      }
-      acc[coffee].count += 1;
-      acc[coffee].revenue += record.money;
-      acc[coffee].avgPrice = acc[coffee].revenue / acc[coffee].count;
-      return acc;
-    }, {} as Record<string, { count: number; revenue: number; avgPrice: number }>);
-
-    const coffeeChartData = Object.entries(coffeeStats).map(([name, stats]) => ({
-      name,
-      count: stats.count,
-      revenue: stats.revenue,
-      avgPrice: parseFloat(stats.avgPrice.toFixed(2))
-    }));
-
-    const hourlyStats = data.reduce((acc, record) => {
-      const hour = record.hour;
-      if (!acc[hour]) {
-        acc[hour] = { orders: 0, revenue: 0 };
-      }
-      acc[hour].orders += 1;
-      acc[hour].revenue += record.money;
-      return acc;
-    }, {} as Record<number, { orders: number; revenue: number }>);
-
-    const hourlyChartData = Array.from({ length: 24 }, (_, hour) => ({
-      hour: `${hour}:00`,
-      orders: hourlyStats[hour]?.orders || 0,
-      revenue: hourlyStats[hour]?.revenue || 0
-    })).filter(item => item.orders > 0);
-
-    const paymentStats = data.reduce((acc, record) => {
-      const method = record.cash_type;
-      if (!acc[method]) {
-        acc[method] = { count: 0, revenue: 0 };
-      }
-      acc[method].count += 1;
-      acc[method].revenue += record.money;
-      return acc;
-    }, {} as Record<string, { count: number; revenue: number }>);
-
-    const paymentChartData = Object.entries(paymentStats).map(([method, stats]) => ({
-      method,
-      count: stats.count,
-      revenue: stats.revenue,
-      percentage: ((stats.count / totalOrders) * 100).toFixed(1)
-    }));
-
-    const customerFrequency = data.reduce((acc, record) => {
-      const customer = record.card;
-      acc[customer] = (acc[customer] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const frequencyDistribution = Object.values(customerFrequency).reduce((acc, frequency) => {
-      const bucket = frequency === 1 ? '1 order' :
-                   frequency <= 3 ? '2-3 orders' :
-                   frequency <= 5 ? '4-5 orders' : '6+ orders';
-      acc[bucket] = (acc[bucket] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const customerFrequencyData = Object.entries(frequencyDistribution).map(([bucket, count]) => ({
-      bucket,
-      customers: count
-    }));
-
-    const priceVolumeData = coffeeChartData.map(item => ({
-      coffee: item.name,
-      price: item.avgPrice,
-      volume: item.count
-    }));
-
-    return {
-      totalRevenue,
-      totalOrders,
-      avgOrderValue,
-      uniqueCustomers,
-      coffeeChartData,
-      hourlyChartData,
-      paymentChartData,
-      customerFrequencyData,
-      priceVolumeData
-    };
-  }, [data]);
+  const changeSourceCurrency = (id: string, sourceCurrency: string) => {
+    setSources(prev => prev.map(source =>
+      source.id === id ? { ...source, currency: sourceCurrency } : source
+    ));
+  };
 
-  const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#0088fe', '#00c49f'];
+  const updateCurrencySettings = (next: CurrencySettings) => {
+    saveCurrencySettings(next);
+    setCurrencySettings(next);
+  };
 
-  if (data.length === 0) {
-    return (
-      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
-        <div className="text-center p-8 bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 max-w-md">
-          <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mx-auto mb-6">
-            <Upload className="h-8 w-8 text-white" />
-          </div>
-          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Upload Your Sales Data</h2>
-          <p className="text-gray-600 mb-6 leading-relaxed">Upload your CSV file to start analyzing sales correlations and insights</p>
+  const updateCatalogue = (next: ProductCatalogue) => {
+    saveCatalogue(next);
+    setCatalogue(next);
+  };
 
-          <label className="cursor-pointer">
-            <input
-              type="file"
-              accept=".csv"
-              onChange={handleFileUpload}
-              className="hidden"
-              disabled={loading}
-            />
-            <div className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl">
-              {loading ? (
-                <>
-                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <Upload className="h-5 w-5 mr-3" />
-                  Choose CSV File
-                </>
-              )}
-            </div>
-          </label>
+  const updateBasketGap = (minutes: number) => {
+    saveBasketGap(minutes);
+    setBasketGap(minutes);
+  };
 
-          {error && (
-            <div className="mt-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl">
-              <div className="flex items-center">
-                <div className="w-5 h-5 bg-red-500 rounded-full flex items-center justify-center mr-2">
-                  <span className="text-white text-xs font-bold">!</span>
-                </div>
-                <span className="text-sm">{error}</span>
-              </div>
-            </div>
-          )}
-        </div>
-      </div>
-    );
-  }
+  const updateAlertRules = (next: AlertRule[]) => {
+    saveAlertRules(next);
+    setAlertRules(next);
+  };
 
-  if (!analytics) return null;
+  const updateLayout = (next: DashboardLayout) => {
+    saveLayout(next);
+    setLayout(next);
+  };
 
-  return (
-    <div className="min-h-screen bg-gray-50 p-6">
-      <div className="max-w-7xl mx-auto">
-        <div className="mb-8 flex justify-between items-center">
-          <div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">Analityka Sprzedaży</h1>
-          </div>
-          <button
-            onClick={() => setData([])}
-            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
-          >
-            Upload New File
-          </button>
-        </div>
+  const applyView = (view: DashboardView) => {
+    updateLayout(view.layout);
+    setDateRange(view.filters.dateRange);
+    setComparison(view.filters.comparison);
+    setProductGrouping(view.filters.productGrouping);
+    setCrossFilter(view.filters.crossFilter);
+  };
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-10">
-          <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-white/20 hover:shadow-xl transition-all duration-300">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-500 uppercase tracking-wide">Przychód łącznie</p>
-                <p className="text-3xl font-bold text-gray-900 mt-1">${analytics.totalRevenue.toFixed(2)}</p>
-              </div>
-              <div className="w-12 h-12 bg-gradient-to-r from-green-400 to-green-600 rounded-xl flex items-center justify-center">
-                <DollarSign className="h-6 w-6 text-white" />
-              </div>
-            </div>
-          </div>
+  const categoryLabels = useMemo(
+    () => Object.fromEntries(PRODUCT_CATEGORIES.map(category => [category, t(`category.${category}`)])) as Record<ProductCategory, string>,
+    [t]
+  );
 
-          <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-white/20 hover:shadow-xl transition-all duration-300">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-500 uppercase tracking-wide">Zamówienia</p>
-                <p className="text-3xl font-bold text-gray-900 mt-1">{analytics.totalOrders.toLocaleString()}</p>
-              </div>
-              <div className="w-12 h-12 bg-gradient-to-r from-blue-400 to-blue-600 rounded-xl flex items-center justify-center">
-                <Coffee className="h-6 w-6 text-white" />
-              </div>
-            </div>
-          </div>
+  // `data` is the selected period narrowed by the chart selection.
+  const {
+    analytics,
+    comparisonAnalytics,
+    days,
+    profiles,
+    cohorts,
+    data,
+    baskets,
+    forecast,
+    insights,
+    pending: computing
+  } = useAnalytics({
+    data: allData,
+    sourceData: mergedData,
+    currencies,
+    range: resolvedDateRange,
+    comparisonRange,
+    crossFilter,
+    catalogue,
+    productGrouping,
+    categoryLabels,
+    basketGap: settledBasketGap,
+    forecastDays: forecastWeeks * 7,
+    alertRules
+  });
+
+  const productOverlay = useMemo(
+    () => analytics && overlayComparison(analytics.coffeeChartData, comparisonAnalytics?.coffeeChartData ?? null, 'name'),
+    [analytics, comparisonAnalytics]
+  );
 
-          <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-white/20 hover:shadow-xl transition-all duration-300">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-500 uppercase tracking-wide">Średnia wartość zamówienia</p>
-                <p className="text-3xl font-bold text-gray-900 mt-1">${analytics.avgOrderValue.toFixed(2)}</p>
-              </div>
-              <div className="w-12 h-12 bg-gradient-to-r from-purple-400 to-purple-600 rounded-xl flex items-center justify-center">
-                <TrendingUp className="h-6 w-6 text-white" />
-              </div>
-            </div>
-          </div>
+  const hourlyOverlay = useMemo(
+    () => analytics && overlayComparison(
+      analytics.hourlyChartData,
+      comparisonAnalytics?.hourlyChartData ?? null,
+      'hour',
+      (a, b) => parseInt(a) - parseInt(b)
+    ),
+    [analytics, comparisonAnalytics]
+  );
 
-          <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-white/20 hover:shadow-xl transition-all duration-300">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-500 uppercase tracking-wide">Wyjątkowych klientów</p>
-                <p className="text-3xl font-bold text-gray-900 mt-1">{analytics.uniqueCustomers.toLocaleString()}</p>
-              </div>
-              <div className="w-12 h-12 bg-gradient-to-r from-orange-400 to-orange-600 rounded-xl flex items-center justify-center">
-                <Users className="h-6 w-6 text-white" />
-              </div>
-            </div>
-          </div>
-        </div>
+  const toggleFilter = (dimension: CrossFilterDimension, value: string | undefined) => {
+    if (value) setCrossFilter(prev => toggleCrossFilter(prev, dimension, value));
+  };
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-          <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20">
-            <div className="flex items-center mb-6">
-              <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-500 rounded-lg flex items-center justify-center mr-3">
-                <Coffee className="h-5 w-5 text-white" />
-              </div>
-              <h3 className="text-xl font-semibold text-gray-800">Przychód według rodzaju kawy</h3>
-            </div>
-            <ResponsiveContainer width="100%" height={320}>
-              <BarChart data={analytics.coffeeChartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="name" stroke="#6b7280" fontSize={12} />
-                <YAxis yAxisId="left" stroke="#6b7280" fontSize={12} />
-                <YAxis yAxisId="right" orientation="right" stroke="#6b7280" fontSize={12} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                    border: 'none',
-                    borderRadius: '12px',
-                    boxShadow: '0 10px 40px rgba(0, 0, 0, 0.1)'
-                  }}
-                />
-                <Legend />
-                <Bar yAxisId="left" dataKey="count" fill="#3B82F6" name="Orders" radius={[4, 4, 0, 0]} />
-                <Bar yAxisId="right" dataKey="revenue" fill="#10B981" name="Revenue ($)" radius={[4, 4, 0, 0]} />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+  // Product bars are labelled with category names while grouping by category.
+  const selectProduct = (label: string | undefined) => {
+    if (productGrouping === 'product') {
+      toggleFilter('product', label);
+    } else {
+      toggleFilter('category', PRODUCT_CATEGORIES.find(category => categoryLabels[category] === label));
+    }
+  };
 
-          <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20">
-            <div className="flex items-center mb-6">
-              <div className="w-10 h-10 bg-gradient-to-r from-green-500 to-teal-500 rounded-lg flex items-center justify-center mr-3">
-                <Clock className="h-5 w-5 text-white" />
-              </div>
-              <h3 className="text-xl font-semibold text-gray-800">Zestawienie wartości zamówień z czasem zakupów.</h3>
-            </div>
-            <ResponsiveContainer width="100%" height={320}>
-              <LineChart data={analytics.hourlyChartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="hour" stroke="#6b7280" fontSize={12} />
-                <YAxis yAxisId="left" stroke="#6b7280" fontSize={12} />
-                <YAxis yAxisId="right" orientation="right" stroke="#6b7280" fontSize={12} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                    border: 'none',
-                    borderRadius: '12px',
-                    boxShadow: '0 10px 40px rgba(0, 0, 0, 0.1)'
-                  }}
-                />
-                <Legend />
-                <Line yAxisId="left" type="monotone" dataKey="orders" stroke="#3B82F6" strokeWidth={3} dot={{ fill: '#3B82F6', strokeWidth: 2, r: 4 }} name="Orders" />
-                <Line yAxisId="right" type="monotone" dataKey="revenue" stroke="#10B981" strokeWidth={3} dot={{ fill: '#10B981', strokeWidth: 2, r: 4 }} name="Revenue ($)" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+  // Narrows the dashboard to the data behind an insight and brings the charts back into view.
+  const showInsight = (link: InsightLink) => {
+    setDateRange({ preset: 'custom', from: link.from, to: link.to });
+    setCrossFilter({
+      ...EMPTY_CROSS_FILTER,
+      product: link.product ? [link.product] : [],
+      payment: link.payment ? [link.payment] : []
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-          <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20">
-            <div className="flex items-center mb-6">
-              <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center mr-3">
-                <CreditCard className="h-5 w-5 text-white" />
-              </div>
-              <h3 className="text-xl font-semibold text-gray-800">Rodzaje płatności</h3>
-            </div>
-            <ResponsiveContainer width="100%" height={320}>
-              <PieChart>
-                <Pie
-                  data={analytics.paymentChartData}
-                  cx="50%"
-                  cy="50%"
-                  labelLine={false}
-                  label={({ method, percentage }) => `${method} (${percentage}%)`}
-                  outerRadius={100}
-                  fill="#8884d8"
-                  dataKey="count"
-                >
-                  {analytics.paymentChartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                    border: 'none',
-                    borderRadius: '12px',
-                    boxShadow: '0 10px 40px rgba(0, 0, 0, 0.1)'
-                  }}
-                />
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
+  const frequencyChartData = useMemo(
+    () => analytics?.customerFrequencyData.map(bucket => ({ ...bucket, label: t(`frequency.${bucket.bucket}`) })) ?? [],
+    [analytics, t]
+  );
 
-          <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20">
-            <div className="flex items-center mb-6">
-              <div className="w-10 h-10 bg-gradient-to-r from-orange-500 to-red-500 rounded-lg flex items-center justify-center mr-3">
-                <Users className="h-5 w-5 text-white" />
-              </div>
-              <h3 className="text-xl font-semibold text-gray-800">Częstotliwość wizyt</h3>
-            </div>
-            <ResponsiveContainer width="100%" height={320}>
-              <BarChart data={analytics.customerFrequencyData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="bucket" stroke="#6b7280" fontSize={12} />
-                <YAxis stroke="#6b7280" fontSize={12} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                    border: 'none',
-                    borderRadius: '12px',
-                    boxShadow: '0 10px 40px rgba(0, 0, 0, 0.1)'
-                  }}
-                />
-                <Bar dataKey="customers" fill="#F97316" name="Number of Customers" radius={[4, 4, 0, 0]} />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
+  const generateReport = async () => {
+    if (!dashboardRef.current) return;
+    const describeRange = (range: ResolvedDateRange | null, fallback: string) =>
+      range?.from || range?.to
+        ? `${range.from ? formatDate(range.from) : '…'} – ${range.to ? formatDate(range.to) : '…'}`
+        : fallback;
+    const datasetName = library.datasets.find(dataset => dataset.id === library.datasetId)?.name;
+
+    setGeneratingReport(true);
+    setReportError(null);
+    try {
+      await generatePdfReport({
+        title: t('app.title'),
+        headerLines: [
+          ...(datasetName ? [t('report.dataset', { name: datasetName })] : []),
+          t('report.sources', { names: sources.filter(source => source.enabled).map(source => source.name).join(', ') }),
+          t('report.dateRange', { range: describeRange(resolvedDateRange, t('dateRange.all')) }),
+          t('report.comparison', { range: comparisonRange ? describeRange(comparisonRange, '') : t('report.noComparison') }),
+          t('report.grouping', {
+            grouping: productGrouping === 'category' ? t('report.groupingCategory') : t('report.groupingProduct')
+          }),
+          t('report.currency', { currency }),
+          t('report.generatedAt', { date: formatDateTime(new Date().toISOString()) })
+        ],
+        sections: Array.from(dashboardRef.current.querySelectorAll<HTMLElement>('[data-report-section]')),
+        fileName: `${t('report.fileName')}_${new Date().toISOString().slice(0, 10)}`
+      });
+    } catch (err) {
+      setReportError(t('report.failed', { message: err instanceof Error ? err.message : t('common.unknownError') }));
+    } finally {
+      setGeneratingReport(false);
+    }
+  };
 
-        <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
-          <div className="flex items-center mb-6">
-            <div className="w-10 h-10 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-lg flex items-center justify-center mr-3">
-              <TrendingUp className="h-5 w-5 text-white" />
-            </div>
-            <h3 className="text-xl font-semibold text-gray-800">Porównanie cen i ilości zamówień</h3>
-          </div>
-          <ResponsiveContainer width="100%" height={320}>
-            <BarChart data={analytics.priceVolumeData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-              <XAxis dataKey="coffee" stroke="#6b7280" fontSize={12} />
-              <YAxis yAxisId="left" stroke="#6b7280" fontSize={12} />
-              <YAxis yAxisId="right" orientation="right" stroke="#6b7280" fontSize={12} />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                  border: 'none',
-                  borderRadius: '12px',
-                  boxShadow: '0 10px 40px rgba(0, 0, 0, 0.1)'
-                }}
-              />
-              <Legend />
-              <Bar yAxisId="left" dataKey="volume" fill="#6366F1" name="Volume (Orders)" radius={[4, 4, 0, 0]} />
-              <Bar yAxisId="right" dataKey="price" fill="#8B5CF6" name="Avg Price ($)" radius={[4, 4, 0, 0]} />
-            </BarChart>
-          </ResponsiveContainer>
+  // Renderers of the widget registry; which widgets are shown, where and how wide comes from the layout.
+  const renderWidget = (widget: WidgetConfig): ReactNode => {
+    if (!analytics) return null;
+    const chartType = widget.chartType ?? 'bar';
+    const changeChartType = (next: ChartType) => updateLayout(updateWidget(layout, widget.id, { chartType: next }));
+
+    const widgets: Record<WidgetId, () => ReactNode> = {
+      kpis: () => (
+        <div data-report-section className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-10">
+          <KpiCard
+            title={t('kpi.revenue')}
+            value={money(analytics.totalRevenue)}
+            icon={DollarSign}
+            gradient="from-green-400 to-green-600"
+            delta={comparisonAnalytics && computeDelta(analytics.totalRevenue, comparisonAnalytics.totalRevenue)}
+            formatDelta={money}
+          />
+          <KpiCard
+            title={t('kpi.orders')}
+            value={formatNumber(analytics.totalOrders)}
+            icon={Coffee}
+            gradient="from-blue-400 to-blue-600"
+            delta={comparisonAnalytics && computeDelta(analytics.totalOrders, comparisonAnalytics.totalOrders)}
+          />
+          <KpiCard
+            title={t('kpi.avgOrderValue')}
+            value={money(analytics.avgOrderValue)}
+            icon={TrendingUp}
+            gradient="from-purple-400 to-purple-600"
+            delta={comparisonAnalytics && computeDelta(analytics.avgOrderValue, comparisonAnalytics.avgOrderValue)}
+            formatDelta={money}
+          />
+          <KpiCard
+            title={t('kpi.uniqueCustomers')}
+            value={formatNumber(analytics.uniqueCustomers)}
+            icon={Users}
+            gradient="from-orange-400 to-orange-600"
+            delta={comparisonAnalytics && computeDelta(analytics.uniqueCustomers, comparisonAnalytics.uniqueCustomers)}
+          />
         </div>
-
-        <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20">
+      ),
+      timeSeries: () => <TimeSeriesPanel days={days} currency={currency} />,
+      heatmap: () => <HeatmapPanel days={days} data={data} currency={currency} />,
+      customers: () => <CustomerPanel profiles={profiles} cohorts={cohorts} currency={currency} />,
+      baskets: () => <BasketPanel analysis={baskets} gap={basketGap} currency={currency} onGapChange={updateBasketGap} />,
+      forecast: () => (
+        <ForecastPanel forecast={forecast} weeks={forecastWeeks} currency={currency} onWeeksChange={setForecastWeeks} />
+      ),
+      transactions: () => <TransactionExplorer data={data} sources={sources} currency={currency} />,
+      products: () => (
+        <ChartWidget
+          title={productGrouping === 'category' ? t('chart.revenueByCategory') : t('chart.revenueByProduct')}
+          icon={Coffee}
+          gradient="from-blue-500 to-purple-500"
+          data={productOverlay ?? []}
+          categoryKey="key"
+          series={[
+            { dataKey: 'current.count', name: t('chart.orders'), color: '#3B82F6' },
+            ...(comparisonAnalytics ? [{ dataKey: 'comparison.count', name: t('chart.ordersComparison'), color: '#93C5FD', comparison: true }] : []),
+            { dataKey: 'current.revenue', name: t('chart.revenue', { currency }), color: '#10B981', axis: 'right' as const },
+            ...(comparisonAnalytics
+              ? [{ dataKey: 'comparison.revenue', name: t('chart.revenueComparison', { currency }), color: '#6EE7B7', axis: 'right' as const, comparison: true }]
+              : [])
+          ]}
+          chartType={chartType}
+          onChartTypeChange={changeChartType}
+          exportRows={analytics.coffeeChartData}
+          fileName={t('chart.products.fileName')}
+          onSelect={row => selectProduct(row.key)}
+        />
+      ),
+      hourly: () => (
+        <ChartWidget
+          title={t('chart.hourly')}
+          icon={Clock}
+          gradient="from-green-500 to-teal-500"
+          data={hourlyOverlay ?? []}
+          categoryKey="key"
+          series={[
+            { dataKey: 'current.orders', name: t('chart.orders'), color: '#3B82F6' },
+            { dataKey: 'current.revenue', name: t('chart.revenue', { currency }), color: '#10B981', axis: 'right' as const },
+            ...(comparisonAnalytics
+              ? [
+                  { dataKey: 'comparison.orders', name: t('chart.ordersComparison'), color: '#93C5FD', comparison: true },
+                  { dataKey: 'comparison.revenue', name: t('chart.revenueComparison', { currency }), color: '#6EE7B7', axis: 'right' as const, comparison: true }
+                ]
+              : [])
+          ]}
+          chartType={chartType}
+          onChartTypeChange={changeChartType}
+          exportRows={analytics.hourlyChartData}
+          fileName={t('chart.hourly.fileName')}
+          onSelect={row => toggleFilter('hour', String(parseInt(row.key)))}
+        />
+      ),
+      payments: () => (
+        <ChartWidget
+          title={t('chart.payments')}
+          icon={CreditCard}
+          gradient="from-purple-500 to-pink-500"
+          data={analytics.paymentChartData}
+          categoryKey="method"
+          series={[{ dataKey: 'count', name: t('chart.orders'), color: '#8B5CF6' }]}
+          chartType={chartType}
+          onChartTypeChange={changeChartType}
+          exportRows={analytics.paymentChartData}
+          fileName={t('chart.payments.fileName')}
+          onSelect={row => toggleFilter('payment', row.method)}
+        />
+      ),
+      frequency: () => (
+        <ChartWidget
+          title={t('chart.frequency')}
+          icon={Users}
+          gradient="from-orange-500 to-red-500"
+          data={frequencyChartData}
+          categoryKey="label"
+          series={[{ dataKey: 'customers', name: t('chart.customers'), color: '#F97316' }]}
+          chartType={chartType}
+          onChartTypeChange={changeChartType}
+          exportRows={analytics.customerFrequencyData}
+          fileName={t('chart.frequency.fileName')}
+          onSelect={row => toggleFilter('frequency', row.bucket)}
+        />
+      ),
+      priceVolume: () => (
+        <ChartWidget
+          title={t('chart.priceVolume')}
+          icon={TrendingUp}
+          gradient="from-indigo-500 to-blue-500"
+          data={analytics.priceVolumeData}
+          categoryKey="coffee"
+          series={[
+            { dataKey: 'volume', name: t('chart.volume'), color: '#6366F1' },
+            { dataKey: 'price', name: t('chart.avgPrice', { currency }), color: '#8B5CF6', axis: 'right' as const }
+          ]}
+          chartType={chartType}
+          onChartTypeChange={changeChartType}
+          exportRows={analytics.priceVolumeData}
+          fileName={t('chart.priceVolume.fileName')}
+        />
+      ),
+      anomalies: () => (
+        <AnomalyPanel
+          insights={insights}
+          rules={alertRules}
+          currency={currency}
+          onRulesChange={updateAlertRules}
+          onSelect={showInsight}
+        />
+      ),
+      insights: () => (
+        <div data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
           <div className="flex items-center mb-6">
             <div className="w-10 h-10 bg-gradient-to-r from-pink-500 to-rose-500 rounded-lg flex items-center justify-center mr-3">
               <BarChart3 className="h-5 w-5 text-white" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-800">Główne wnioski</h3>
+            <h3 className="text-xl font-semibold text-gray-800">{t('insights.title')}</h3>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="p-6 bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl border border-blue-100">
               <div className="flex items-center mb-3">
                 <Coffee className="h-5 w-5 text-blue-600 mr-2" />
-                <h4 className="font-semibold text-gray-900">Najlepszy produkt</h4>
+                <h4 className="font-semibold text-gray-900">
+                  {productGrouping === 'category' ? t('insights.topCategory') : t('insights.topProduct')}
+                </h4>
               </div>
               <p className="text-gray-700 leading-relaxed">
-                <span className="font-semibold text-blue-600">
-                  {analytics.coffeeChartData.reduce((top, current) =>
-                    current.revenue > top.revenue ? current : top
-                  ).name}
-                </span> generuje największą sprzedaż wynoszącą łącznie {analytics.coffeeChartData.reduce((top, current) =>
-                  current.revenue > top.revenue ? current : top
-                ).revenue.toFixed(2)} $/zł.
+                {analytics.topProduct && (
+                  <>
+                    <span className="font-semibold text-blue-600">{analytics.topProduct.name}</span>{' '}
+                    {t('insights.topProductText', { revenue: money(analytics.topProduct.revenue) })}
+                  </>
+                )}
               </p>
             </div>
             <div className="p-6 bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl border border-green-100">
               <div className="flex items-center mb-3">
                 <Clock className="h-5 w-5 text-green-600 mr-2" />
-                <h4 className="font-semibold text-gray-900">Godziny Szczytu</h4>
+                <h4 className="font-semibold text-gray-900">{t('insights.peakHour')}</h4>
               </div>
               <p className="text-gray-700 leading-relaxed">
-                <span className="font-semibold text-green-600">
-                  {analytics.hourlyChartData.reduce((peak, current) =>
-                    current.orders > peak.orders ? current : peak
-                  ).hour}
-                </span> jest godziną z największym ruchem, z {analytics.hourlyChartData.reduce((peak, current) =>
-                  current.orders > peak.orders ? current : peak
-                ).orders} zamówieniami.
+                {analytics.peakHour && (
+                  <>
+                    <span className="font-semibold text-green-600">{analytics.peakHour.hour}</span>{' '}
+                    {t('insights.peakHourText', { count: analytics.peakHour.orders })}
+                  </>
+                )}
               </p>
             </div>
             <div className="p-6 bg-gradient-to-br from-purple-50 to-violet-50 rounded-xl border border-purple-100">
               <div className="flex items-center mb-3">
                 <Users className="h-5 w-5 text-purple-600 mr-2" />
-                <h4 className="font-semibold text-gray-900">Liczebność klientów</h4>
+                <h4 className="font-semibold text-gray-900">{t('insights.customers')}</h4>
               </div>
               <p className="text-gray-700 leading-relaxed">
-                <span className="font-semibold text-purple-600">{analytics.uniqueCustomers}</span> wyjątkowych klientów z <span className="font-semibold text-purple-600">{analytics.totalOrders}</span> zamówieniami ({(analytics.totalOrders / analytics.uniqueCustomers).toFixed(1)} ozamówień na osobę)
+                <span className="font-semibold text-purple-600">{formatNumber(analytics.uniqueCustomers)}</span>{' '}
+                {t('insights.customersText', { count: analytics.uniqueCustomers })}{' '}
+                {t('insights.customerOrders', { count: analytics.customerOrders })}
+                {analytics.uniqueCustomers > 0 && ` ${t('insights.ordersPerCustomer', {
+                  value: formatNumber(analytics.customerOrders / analytics.uniqueCustomers, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+                })}`}
               </p>
             </div>
             <div className="p-6 bg-gradient-to-br from-orange-50 to-amber-50 rounded-xl border border-orange-100">
               <div className="flex items-center mb-3">
                 <DollarSign className="h-5 w-5 text-orange-600 mr-2" />
-                <h4 className="font-semibold text-gray-900">Typowa transakcja</h4>
+                <h4 className="font-semibold text-gray-900">{t('insights.typicalOrder')}</h4>
               </div>
               <p className="text-gray-700 leading-relaxed">
-                <span className="font-semibold text-orange-600">${analytics.avgOrderValue.toFixed(2)}</span> średnio na zamówienie
+                <span className="font-semibold text-orange-600">{money(analytics.avgOrderValue)}</span> {t('insights.typicalOrderText')}
               </p>
             </div>
           </div>
         </div>
+      )
+    };
+
+    return widgets[widget.id]();
+  };
+
+  const wizard = pendingFiles.length > 0 && (
+    <MappingWizard
+      key={pendingFiles[0].id}
+      file={pendingFiles[0].file}
+      sourceId={pendingFiles[0].id}
+      defaultCurrency={sources[sources.length - 1]?.currency ?? currencySettings.reportingCurrency ?? DEFAULT_CURRENCY}
+      position={importedCount + 1}
+      total={importedCount + pendingFiles.length}
+      onConfirm={confirmImport}
+      onSkip={nextPendingFile}
+    />
+  );
+
+  const datasetLibrary = (
+    <DatasetLibrary
+      datasets={library.datasets}
+      activeId={library.datasetId}
+      onOpen={library.openDataset}
+      onRename={library.renameDataset}
+      onDelete={library.deleteDataset}
+    />
+  );
+
+  if (!library.hydrated) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (sources.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-6">
+        <div className="absolute top-6 right-6">
+          <LanguageSwitcher />
+        </div>
+        <div className="text-center p-8 bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 max-w-md">
+          <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Upload className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">{t('upload.title')}</h2>
+          <p className="text-gray-600 mb-6 leading-relaxed">{t('upload.description')}</p>
+
+          <label className="cursor-pointer">
+            <input
+              type="file"
+              accept=".csv"
+              multiple
+              onChange={handleFileUpload}
+              className="hidden"
+              disabled={loading}
+            />
+            <div className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl">
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
+                  {t('app.processing')}
+                </>
+              ) : (
+                <>
+                  <Upload className="h-5 w-5 mr-3" />
+                  {t('upload.choose')}
+                </>
+              )}
+            </div>
+          </label>
+        </div>
+        {library.datasets.length > 0 && (
+          <div className="w-full max-w-5xl mt-8">{datasetLibrary}</div>
+        )}
+        {wizard}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div ref={dashboardRef} className="max-w-7xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('app.title')}</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <LanguageSwitcher />
+            <label className="cursor-pointer">
+              <input
+                type="file"
+                accept=".csv"
+                multiple
+                onChange={handleFileUpload}
+                className="hidden"
+                disabled={loading}
+              />
+              <div className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                <FilePlus className="h-4 w-4 mr-2" />
+                {loading ? t('app.processing') : t('upload.addFiles')}
+              </div>
+            </label>
+            <button
+              onClick={generateReport}
+              disabled={!analytics || generatingReport || shownCurrency === null}
+              className="inline-flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              {generatingReport ? t('report.generating') : t('report.button')}
+            </button>
+            <button
+              onClick={() => setShowLibrary(prev => !prev)}
+              className="inline-flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <Database className="h-4 w-4 mr-2" />
+              {t('library.button')}
+            </button>
+            <button
+              onClick={library.startNewDataset}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              {t('upload.newDataset')}
+            </button>
+          </div>
+        </div>
+
+        {reportError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">{reportError}</div>
+        )}
+
+        {library.storageError !== null && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">
+            {t('library.storageError', {
+              message: library.storageError instanceof Error ? library.storageError.message : t('library.storageUnavailable')
+            })}
+          </div>
+        )}
+
+        {showLibrary && datasetLibrary}
+
+        <SourceList
+          sources={sources}
+          duplicates={duplicates}
+          onToggle={toggleSource}
+          onRemove={removeSource}
+          onShowReport={id => setReportSourceIds([id])}
+          onCurrencyChange={changeSourceCurrency}
+        />
+
+        {reportSourceIds.length > 0 && !loading && (
+          <ImportReportPanel
+            sources={sources.filter(source => reportSourceIds.includes(source.id))}
+            onClose={() => setReportSourceIds([])}
+          />
+        )}
+
+        <CurrencyPanel
+          settings={currencySettings}
+          sourceCurrencies={sourceCurrencies(sources)}
+          missingRates={conversion.missingRates}
+          defaultDate={sourceBounds.from ?? new Date().toISOString().slice(0, 10)}
+          onChange={updateCurrencySettings}
+        />
+
+        <DateRangePicker value={dateRange} resolved={resolvedDateRange} onChange={setDateRange} />
+        <ComparisonPicker value={comparison} resolved={comparisonRange} onChange={setComparison} />
+
+        <CrossFilterBar
+          filter={crossFilter}
+          categoryLabels={categoryLabels}
+          onRemove={toggleFilter}
+          onClear={() => setCrossFilter(EMPTY_CROSS_FILTER)}
+        />
+
+        <ViewManager
+          layout={layout}
+          filters={{ ...filters, crossFilter }}
+          editing={editingLayout}
+          onToggleEditing={() => setEditingLayout(prev => !prev)}
+          onResetLayout={() => updateLayout(DEFAULT_LAYOUT)}
+          onApply={applyView}
+        />
+
+        {shownCurrency === null ? (
+          <div className="p-8 bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl text-center">
+            {t('currency.required', { currencies: sourceCurrencies(sources).join(', ') })}
+          </div>
+        ) : !analytics && computing ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !analytics ? (
+          <div className="p-8 bg-white/80 rounded-2xl shadow-lg border border-white/20 text-center text-gray-600">
+            {t('app.noData')}
+          </div>
+        ) : (
+          <>
+            <CatalogueEditor data={allData} catalogue={catalogue} onChange={updateCatalogue} />
+
+            <div className="flex items-center gap-3 mb-6">
+              <span className="text-sm font-medium text-gray-500 uppercase tracking-wide">{t('app.groupBy')}</span>
+              <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+                {(['product', 'category'] as ProductGrouping[]).map(grouping => (
+                  <button
+                    key={grouping}
+                    onClick={() => setProductGrouping(grouping)}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      productGrouping === grouping ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {t(`app.grouping.${grouping}`)}
+                  </button>
+                ))}
+              </div>
+              {computing && <span className="text-sm text-gray-400">{t('app.recomputing')}</span>}
+            </div>
+
+            <DashboardGrid
+              layout={layout}
+              editing={editingLayout}
+              onChange={updateLayout}
+              renderWidget={renderWidget}
+            />
+          </>
+        )}
       </div>
+      {wizard}
     </div>
   );
 };
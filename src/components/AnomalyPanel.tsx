@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { AlertTriangle, ArrowRight, Bell, ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import {
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  type AlertRule,
+  type Insight,
+  type InsightKind,
+  type InsightLink
+} from '../lib/anomalies';
+import ExportMenu from './ExportMenu';
+
+interface AnomalyPanelProps {
+  // Detected in the analytics worker from the whole history and `rules`.
+  insights: Insight[];
+  rules: AlertRule[];
+  currency: string;
+  onRulesChange: (rules: AlertRule[]) => void;
+  onSelect: (link: InsightLink) => void;
+}
+
+type KindFilter = InsightKind | 'all';
+
+const KIND_FILTERS: KindFilter[] = ['all', 'rule', 'lowRevenue', 'priceChange', 'stoppedSelling', 'paymentShift'];
+
+const INSIGHT_LIST_LIMIT = 20;
+
+const severityClassName = (severity: number) =>
+  severity >= 0.75 ? 'bg-red-500' : severity >= 0.4 ? 'bg-amber-400' : 'bg-gray-300';
+
+const AnomalyPanel = ({ insights, rules, currency, onRulesChange, onSelect }: AnomalyPanelProps) => {
+  const { t, formatNumber, formatMoney, formatDate } = useI18n();
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [showAll, setShowAll] = useState(false);
+
+  const shown = kind === 'all' ? insights : insights.filter(insight => insight.kind === kind);
+  const visible = showAll ? shown : shown.slice(0, INSIGHT_LIST_LIMIT);
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    onRulesChange([...rules, { id: crypto.randomUUID(), metric: 'dailyRevenue', operator: 'below', threshold: 0 }]);
+    setRulesOpen(true);
+  };
+
+  const percent = (value: number) => formatNumber(value, { maximumFractionDigits: 1 });
+
+  const ruleValue = (rule: AlertRule, value: number) =>
+    rule.metric === 'dailyRevenue' ? formatMoney(value, currency) :
+    rule.metric === 'dailyOrders' ? formatNumber(value) :
+    `${percent(value)}%`;
+
+  const describeRule = (rule: AlertRule) =>
+    t('anomalies.ruleText', {
+      metric: t(`anomalies.metric.${rule.metric}`),
+      operator: t(`anomalies.operator.${rule.operator}`),
+      threshold: ruleValue(rule, rule.threshold)
+    });
+
+  const describe = (insight: Insight) =>
+    insight.kind === 'lowRevenue'
+      ? t('anomalies.lowRevenue', {
+          revenue: formatMoney(insight.revenue, currency),
+          expected: formatMoney(insight.expected, currency),
+          drop: percent(insight.severity * 100)
+        })
+      : insight.kind === 'priceChange'
+        ? t('anomalies.priceChange', {
+            product: insight.product,
+            price: formatMoney(insight.price, insight.currency),
+            previous: formatMoney(insight.previousPrice, insight.currency)
+          })
+        : insight.kind === 'stoppedSelling'
+          ? t('anomalies.stoppedSelling', { product: insight.product, count: insight.days })
+          : insight.kind === 'paymentShift'
+            ? t('anomalies.paymentShift', { share: percent(insight.cashShare), expected: percent(insight.expected) })
+            : t('anomalies.rule', { rule: describeRule(insight.rule), value: ruleValue(insight.rule, insight.value) });
+
+  const selectClassName = 'px-3 py-1 border border-gray-200 rounded-lg bg-white';
+
+  return (
+    <div data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-red-500 to-orange-500 rounded-lg flex items-center justify-center mr-3">
+            <AlertTriangle className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">{t('anomalies.title')}</h3>
+            <p className="text-sm text-gray-500">{t('anomalies.subtitle')}</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setRulesOpen(prev => !prev)}
+          className="inline-flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+          data-report-ignore
+        >
+          <Bell className="h-4 w-4 mr-2" />
+          {t('anomalies.rules', { count: rules.length })}
+          {rulesOpen ? <ChevronUp className="ml-2 h-4 w-4" /> : <ChevronDown className="ml-2 h-4 w-4" />}
+        </button>
+      </div>
+
+      {rulesOpen && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-xl" data-report-ignore>
+          {rules.length === 0 && <p className="text-gray-600 text-sm mb-3">{t('anomalies.noRules')}</p>}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 mb-2">
+              <select
+                value={rule.metric}
+                onChange={event => updateRule(rule.id, { metric: event.target.value as AlertRule['metric'] })}
+                className={selectClassName}
+              >
+                {ALERT_METRICS.map(metric => (
+                  <option key={metric} value={metric}>{t(`anomalies.metric.${metric}`)}</option>
+                ))}
+              </select>
+              <select
+                value={rule.operator}
+                onChange={event => updateRule(rule.id, { operator: event.target.value as AlertRule['operator'] })}
+                className={selectClassName}
+              >
+                {ALERT_OPERATORS.map(operator => (
+                  <option key={operator} value={operator}>{t(`anomalies.operator.${operator}`)}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={rule.threshold}
+                onChange={event => updateRule(rule.id, { threshold: Number(event.target.value) || 0 })}
+                className="w-28 px-3 py-1 border border-gray-200 rounded-lg"
+              />
+              <span className="text-sm text-gray-500">
+                {rule.metric === 'dailyRevenue' ? currency : rule.metric === 'cashShare' ? '%' : ''}
+              </span>
+              <button
+                onClick={() => onRulesChange(rules.filter(other => other.id !== rule.id))}
+                className="ml-auto text-gray-400 hover:text-red-500"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addRule}
+            className="mt-2 inline-flex items-center px-3 py-2 bg-white border border-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('anomalies.addRule')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="inline-flex flex-wrap bg-white rounded-lg border border-gray-200 p-1">
+          {KIND_FILTERS.map(value => (
+            <button
+              key={value}
+              onClick={() => setKind(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                kind === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t(`anomalies.kind.${value}`)}{' '}
+              ({formatNumber(value === 'all' ? insights.length : insights.filter(insight => insight.kind === value).length)})
+            </button>
+          ))}
+        </div>
+        <ExportMenu
+          rows={shown.map(insight => ({
+            date: insight.date,
+            kind: insight.kind,
+            severity: Number(insight.severity.toFixed(2)),
+            description: describe(insight)
+          }))}
+          fileName={t('anomalies.fileName')}
+        />
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-gray-600">{t('anomalies.empty')}</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {visible.map(insight => (
+              <li key={insight.id} className="flex items-center gap-3 px-4 py-3">
+                <span className={`w-2 h-8 rounded-full flex-shrink-0 ${severityClassName(insight.severity)}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs text-gray-500">
+                    {t(`anomalies.kind.${insight.kind}`)} · {formatDate(insight.date)}
+                  </div>
+                  <div className="text-sm text-gray-800">{describe(insight)}</div>
+                </div>
+                <button
+                  onClick={() => onSelect(insight.link)}
+                  className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                  data-report-ignore
+                >
+                  {t('anomalies.show')}
+                  <ArrowRight className="h-4 w-4 ml-1" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          {shown.length > INSIGHT_LIST_LIMIT && (
+            <button
+              onClick={() => setShowAll(prev => !prev)}
+              className="mt-2 text-xs text-gray-500 hover:text-gray-700"
+              data-report-ignore
+            >
+              {showAll ? t('anomalies.showFewer') : t('anomalies.showAll', { shown: INSIGHT_LIST_LIMIT, count: shown.length })}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnomalyPanel;
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Layers, Percent, ShoppingBasket, ShoppingCart, Wallet } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { BasketAnalysis } from '../lib/baskets';
+import ExportMenu from './ExportMenu';
+import KpiCard from './KpiCard';
+
+interface BasketPanelProps {
+  // Computed in the analytics worker for a settled `gap`; null until the first result arrives.
+  analysis: BasketAnalysis | null;
+  gap: number;
+  currency: string;
+  onGapChange: (minutes: number) => void;
+}
+
+type AffinityTab = 'matrix' | 'rules';
+
+const TABS: AffinityTab[] = ['matrix', 'rules'];
+
+// Products beyond this are left out of the matrix; the rules still cover every product.
+const MATRIX_LIMIT = 15;
+const RULE_LIST_LIMIT = 50;
+
+const NO_BASKETS: BasketAnalysis = {
+  summary: { baskets: 0, avgBasketSize: 0, avgBasketValue: 0, multiItemShare: 0 },
+  affinity: { products: [], matrix: [], rules: [] }
+};
+
+const BasketPanel = ({ analysis, gap, currency, onGapChange }: BasketPanelProps) => {
+  const { t, formatNumber, formatMoney } = useI18n();
+  const [tab, setTab] = useState<AffinityTab>('matrix');
+  const { summary, affinity } = analysis ?? NO_BASKETS;
+
+  const products = affinity.products.slice(0, MATRIX_LIMIT);
+  const maxPair = Math.max(
+    0,
+    ...products.flatMap((_, i) => products.map((__, j) => (i === j ? 0 : affinity.matrix[i][j])))
+  );
+
+  const percent = (value: number) => `${formatNumber(value * 100, { maximumFractionDigits: 1 })}%`;
+
+  return (
+    <div data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-emerald-500 to-lime-500 rounded-lg flex items-center justify-center mr-3">
+            <ShoppingBasket className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">{t('baskets.title')}</h3>
+            <p className="text-sm text-gray-500">{t('baskets.subtitle')}</p>
+          </div>
+        </div>
+        <label className="text-sm text-gray-600 flex items-center gap-2">
+          {t('baskets.gap')}
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={gap}
+            onChange={event => onGapChange(Math.max(0, Number(event.target.value) || 0))}
+            className="w-16 px-2 py-1 border border-gray-200 rounded-lg"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <KpiCard
+          title={t('baskets.count')}
+          value={formatNumber(summary.baskets)}
+          icon={ShoppingCart}
+          gradient="from-emerald-400 to-emerald-600"
+        />
+        <KpiCard
+          title={t('baskets.avgSize')}
+          value={formatNumber(summary.avgBasketSize, { maximumFractionDigits: 2 })}
+          icon={Layers}
+          gradient="from-lime-400 to-lime-600"
+        />
+        <KpiCard
+          title={t('baskets.avgValue')}
+          value={formatMoney(summary.avgBasketValue, currency)}
+          icon={Wallet}
+          gradient="from-teal-400 to-teal-600"
+        />
+        <KpiCard
+          title={t('baskets.multiItem')}
+          value={`${formatNumber(summary.multiItemShare, { maximumFractionDigits: 1 })}%`}
+          icon={Percent}
+          gradient="from-green-400 to-green-600"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+          {TABS.map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                tab === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t(`baskets.${value}`)}
+            </button>
+          ))}
+        </div>
+        <ExportMenu
+          rows={affinity.rules.map(rule => ({
+            ...rule,
+            support: Number(rule.support.toFixed(4)),
+            confidence: Number(rule.confidence.toFixed(4)),
+            lift: Number(rule.lift.toFixed(2))
+          }))}
+          fileName={t('baskets.fileName')}
+        />
+      </div>
+
+      {affinity.rules.length === 0 ? (
+        <p className="text-gray-600">{t('baskets.empty')}</p>
+      ) : tab === 'matrix' ? (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th />
+                {products.map(product => (
+                  <th key={product} className="px-1 py-1 font-medium text-gray-500 align-bottom">
+                    <span className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap">{product}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((rowProduct, i) => (
+                <tr key={rowProduct}>
+                  <th className="pr-3 text-left font-medium text-gray-600 whitespace-nowrap">{rowProduct}</th>
+                  {products.map((columnProduct, j) => {
+                    const count = affinity.matrix[i][j];
+                    const intensity = i === j || !maxPair ? 0 : count / maxPair;
+                    return (
+                      <td
+                        key={columnProduct}
+                        title={`${rowProduct} + ${columnProduct}: ${formatNumber(count)}`}
+                        className={`w-10 h-8 text-center rounded ${i === j ? 'bg-gray-100 text-gray-500' : ''}`}
+                        style={i === j ? undefined : {
+                          backgroundColor: `rgba(16, 185, 129, ${0.05 + intensity * 0.95})`,
+                          color: intensity > 0.6 ? '#fff' : '#374151'
+                        }}
+                      >
+                        {count > 0 ? formatNumber(count) : ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">{t('baskets.matrixHint')}</p>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-100 rounded-xl">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">{t('baskets.antecedent')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('baskets.consequent')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('baskets.together')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('baskets.support')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('baskets.confidence')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('baskets.lift')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {affinity.rules.slice(0, RULE_LIST_LIMIT).map(rule => (
+                  <tr key={`${rule.antecedent}|${rule.consequent}`} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-800">{rule.antecedent}</td>
+                    <td className="px-3 py-2 text-gray-800">{rule.consequent}</td>
+                    <td className="px-3 py-2 text-right text-gray-800">{formatNumber(rule.baskets)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{percent(rule.support)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{percent(rule.confidence)}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${rule.lift > 1 ? 'text-green-600' : 'text-gray-600'}`}>
+                      {formatNumber(rule.lift, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {affinity.rules.length > RULE_LIST_LIMIT && (
+            <p className="mt-2 text-xs text-gray-500">
+              {t('baskets.limited', { shown: RULE_LIST_LIMIT, count: affinity.rules.length })}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BasketPanel;
@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Tags } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import {
+  catalogueProduct,
+  normaliseProductName,
+  PRODUCT_CATEGORIES,
+  type ProductCatalogue,
+  type ProductCategory
+} from '../lib/catalogue';
+import type { SalesRecord } from '../types';
+
+interface CatalogueEditorProps {
+  data: SalesRecord[];
+  catalogue: ProductCatalogue;
+  onChange: (catalogue: ProductCatalogue) => void;
+}
+
+const CatalogueEditor = ({ data, catalogue, onChange }: CatalogueEditorProps) => {
+  const { t, formatNumber } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  const rawNames = useMemo(() => {
+    const names = data.reduce((acc, record) => {
+      const key = normaliseProductName(record.coffee_name);
+      if (!acc[key]) {
+        acc[key] = { variants: new Set<string>(), count: 0 };
+      }
+      acc[key].variants.add(record.coffee_name);
+      acc[key].count += 1;
+      return acc;
+    }, {} as Record<string, { variants: Set<string>; count: number }>);
+
+    return Object.entries(names)
+      .map(([key, { variants, count }]) => ({ key, variants: Array.from(variants), count }))
+      .sort((a, b) => b.count - a.count);
+  }, [data]);
+
+  const updateAlias = (key: string, product: string) => {
+    const aliases = { ...catalogue.aliases };
+    if (product.trim()) {
+      aliases[key] = product;
+    } else {
+      delete aliases[key];
+    }
+    onChange({ ...catalogue, aliases });
+  };
+
+  const updateCategory = (product: string, category: ProductCategory) => {
+    onChange({ ...catalogue, categories: { ...catalogue.categories, [normaliseProductName(product)]: category } });
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <button onClick={() => setOpen(prev => !prev)} className="w-full flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-teal-500 to-cyan-500 rounded-lg flex items-center justify-center mr-3">
+            <Tags className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('catalogue.title')}</h3>
+          <span className="ml-3 text-sm text-gray-500">{t('catalogue.names', { count: rawNames.length })}</span>
+        </div>
+        {open ? <ChevronUp className="h-5 w-5 text-gray-500" /> : <ChevronDown className="h-5 w-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">{t('catalogue.rawName')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('catalogue.orders')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('catalogue.product')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('catalogue.category')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rawNames.map(({ key, variants, count }) => {
+                const resolved = catalogueProduct(variants[0], catalogue);
+                return (
+                  <tr key={key} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-800">{variants.join(' / ')}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatNumber(count)}</td>
+                    <td className="px-3 py-2">
+                      <input
+                        value={catalogue.aliases[key] ?? ''}
+                        onChange={event => updateAlias(key, event.target.value)}
+                        placeholder={resolved.product}
+                        className="w-full px-3 py-1 border border-gray-200 rounded-lg"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={resolved.category}
+                        onChange={event => updateCategory(resolved.product, event.target.value as ProductCategory)}
+                        className="w-full px-3 py-1 border border-gray-200 rounded-lg bg-white"
+                      >
+                        {PRODUCT_CATEGORIES.map(category => (
+                          <option key={category} value={category}>{t(`category.${category}`)}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogueEditor;
@@ -0,0 +1,200 @@
+import { useRef } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Legend, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { LucideIcon } from 'lucide-react';
+import { ChartColumn, ChartLine, ChartPie, Table2 } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { PIE_COLORS, TOOLTIP_STYLE } from '../lib/chartStyle';
+import type { TableRow } from '../lib/export';
+import { CHART_TYPES, type ChartType } from '../lib/layout';
+import ExportMenu from './ExportMenu';
+
+export interface ChartSeries {
+  // May be a dotted path, e.g. 'current.revenue' in the comparison overlays.
+  dataKey: string;
+  name: string;
+  color: string;
+  axis?: 'left' | 'right';
+  // Drawn dashed in the line chart; pie charts only show the first series that is not a comparison.
+  comparison?: boolean;
+}
+
+interface ChartWidgetProps<Row extends object> {
+  title: string;
+  icon: LucideIcon;
+  gradient: string;
+  data: Row[];
+  categoryKey: string;
+  series: ChartSeries[];
+  chartType: ChartType;
+  onChartTypeChange: (chartType: ChartType) => void;
+  exportRows: TableRow[];
+  fileName: string;
+  onSelect?: (row: Row) => void;
+}
+
+const CHART_TYPE_ICONS: Record<ChartType, LucideIcon> = {
+  bar: ChartColumn,
+  line: ChartLine,
+  pie: ChartPie,
+  table: Table2
+};
+
+const valueAt = (row: object, path: string) =>
+  path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], row);
+
+const ChartWidget = <Row extends object>({
+  title,
+  icon: Icon,
+  gradient,
+  data,
+  categoryKey,
+  series,
+  chartType,
+  onChartTypeChange,
+  exportRows,
+  fileName,
+  onSelect
+}: ChartWidgetProps<Row>) => {
+  const { t, formatNumber } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const hasRightAxis = series.some(item => item.axis === 'right');
+  const pieSeries = series.find(item => !item.comparison) ?? series[0];
+
+  const cartesianProps = {
+    data,
+    onClick: (state: { activePayload?: { payload: Row }[] } | null) => {
+      const row = state?.activePayload?.[0]?.payload;
+      if (row) onSelect?.(row);
+    },
+    style: onSelect ? { cursor: 'pointer' } : undefined
+  };
+
+  const axes = [
+    <CartesianGrid key="grid" strokeDasharray="3 3" stroke="#f0f0f0" />,
+    <XAxis key="x" dataKey={categoryKey} stroke="#6b7280" fontSize={12} />,
+    <YAxis key="left" yAxisId="left" stroke="#6b7280" fontSize={12} />,
+    ...(hasRightAxis ? [<YAxis key="right" yAxisId="right" orientation="right" stroke="#6b7280" fontSize={12} />] : []),
+    <Tooltip key="tooltip" contentStyle={TOOLTIP_STYLE} />,
+    <Legend key="legend" />
+  ];
+
+  return (
+    <div ref={chartRef} data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex items-center mb-6">
+        <div className={`w-10 h-10 bg-gradient-to-r ${gradient} rounded-lg flex items-center justify-center mr-3`}>
+          <Icon className="h-5 w-5 text-white" />
+        </div>
+        <h3 className="text-xl font-semibold text-gray-800">{title}</h3>
+        <div className="ml-4 inline-flex bg-white rounded-lg border border-gray-200 p-0.5" data-report-ignore>
+          {CHART_TYPES.map(type => {
+            const TypeIcon = CHART_TYPE_ICONS[type];
+            return (
+              <button
+                key={type}
+                onClick={() => onChartTypeChange(type)}
+                title={t(`chartType.${type}`)}
+                className={`p-1 rounded-md transition-colors ${
+                  chartType === type ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-900'
+                }`}
+              >
+                <TypeIcon className="h-4 w-4" />
+              </button>
+            );
+          })}
+        </div>
+        <ExportMenu chartRef={chartType === 'table' ? undefined : chartRef} rows={exportRows} fileName={fileName} />
+      </div>
+      {chartType === 'table' ? (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 sticky top-0">
+              <tr>
+                <th className="px-3 py-2" />
+                {series.map(item => (
+                  <th key={item.dataKey} className="px-3 py-2 text-right font-medium">{item.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {data.map(row => (
+                <tr
+                  key={String(valueAt(row, categoryKey))}
+                  onClick={() => onSelect?.(row)}
+                  className={`border-t border-gray-100 ${onSelect ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                >
+                  <td className="px-3 py-2 text-gray-800">{String(valueAt(row, categoryKey))}</td>
+                  {series.map(item => {
+                    const value = valueAt(row, item.dataKey);
+                    return (
+                      <td key={item.dataKey} className="px-3 py-2 text-right text-gray-700">
+                        {typeof value === 'number' ? formatNumber(value, { maximumFractionDigits: 2 }) : '—'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={320}>
+          {chartType === 'pie' ? (
+            <PieChart>
+              <Pie
+                data={data}
+                cx="50%"
+                cy="50%"
+                labelLine={false}
+                label={({ name, percent }) => `${name} (${formatNumber(percent * 100, { maximumFractionDigits: 1 })}%)`}
+                outerRadius={100}
+                fill="#8884d8"
+                dataKey={pieSeries.dataKey}
+                nameKey={categoryKey}
+                onClick={({ payload }: { payload: Row }) => onSelect?.(payload)}
+                style={onSelect ? { cursor: 'pointer' } : undefined}
+              >
+                {data.map((_, index) => (
+                  <Cell key={`cell-${index}`} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+            </PieChart>
+          ) : chartType === 'line' ? (
+            <LineChart {...cartesianProps}>
+              {axes}
+              {series.map(item => (
+                <Line
+                  key={item.dataKey}
+                  yAxisId={item.axis ?? 'left'}
+                  type="monotone"
+                  dataKey={item.dataKey}
+                  stroke={item.color}
+                  strokeWidth={item.comparison ? 2 : 3}
+                  strokeDasharray={item.comparison ? '5 5' : undefined}
+                  dot={item.comparison ? false : { fill: item.color, strokeWidth: 2, r: 4 }}
+                  name={item.name}
+                />
+              ))}
+            </LineChart>
+          ) : (
+            <BarChart {...cartesianProps}>
+              {axes}
+              {series.map(item => (
+                <Bar
+                  key={item.dataKey}
+                  yAxisId={item.axis ?? 'left'}
+                  dataKey={item.dataKey}
+                  fill={item.color}
+                  name={item.name}
+                  radius={[4, 4, 0, 0]}
+                />
+              ))}
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default ChartWidget;
@@ -0,0 +1,58 @@
+import { GitCompare } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { COMPARISON_MODES, type Comparison } from '../lib/comparison';
+import type { ResolvedDateRange } from '../lib/dateRange';
+
+interface ComparisonPickerProps {
+  value: Comparison;
+  resolved: ResolvedDateRange | null;
+  onChange: (comparison: Comparison) => void;
+}
+
+const ComparisonPicker = ({ value, resolved, onChange }: ComparisonPickerProps) => {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <GitCompare className="h-5 w-5 text-gray-500" />
+      <div className="inline-flex flex-wrap bg-white rounded-lg border border-gray-200 p-1">
+        {COMPARISON_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ mode, from: resolved?.from ?? null, to: resolved?.to ?? null })}
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              value.mode === mode ? 'bg-purple-600 text-white' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {t(`comparison.${mode}`)}
+          </button>
+        ))}
+      </div>
+      {value.mode === 'custom' ? (
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={value.from ?? ''}
+            max={value.to ?? undefined}
+            onChange={event => onChange({ ...value, from: event.target.value || null })}
+            className="px-3 py-1 border border-gray-200 rounded-lg"
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="date"
+            value={value.to ?? ''}
+            min={value.from ?? undefined}
+            onChange={event => onChange({ ...value, to: event.target.value || null })}
+            className="px-3 py-1 border border-gray-200 rounded-lg"
+          />
+        </div>
+      ) : (
+        resolved?.from && (
+          <span className="text-sm text-gray-500">{formatDate(resolved.from)} – {resolved.to && formatDate(resolved.to)}</span>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPicker;
@@ -0,0 +1,57 @@
+import { Filter, X } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { FrequencyBucketId } from '../lib/analytics';
+import type { ProductCategory } from '../lib/catalogue';
+import { CROSS_FILTER_DIMENSIONS, isCrossFilterEmpty, type CrossFilter, type CrossFilterDimension } from '../lib/crossFilter';
+
+interface CrossFilterBarProps {
+  filter: CrossFilter;
+  categoryLabels: Record<ProductCategory, string>;
+  onRemove: (dimension: CrossFilterDimension, value: string) => void;
+  onClear: () => void;
+}
+
+const CrossFilterBar = ({ filter, categoryLabels, onRemove, onClear }: CrossFilterBarProps) => {
+  const { t } = useI18n();
+  if (isCrossFilterEmpty(filter)) {
+    return <p className="text-sm text-gray-400 mb-6">{t('crossFilter.hint')}</p>;
+  }
+
+  const valueLabel = (dimension: CrossFilterDimension, value: string) =>
+    dimension === 'category' ? categoryLabels[value as ProductCategory] :
+    dimension === 'hour' ? `${value}:00` :
+    dimension === 'frequency' ? t(`frequency.${value as FrequencyBucketId}`) :
+    value;
+
+  return (
+    <div data-report-section className="flex flex-wrap items-center gap-2 mb-6">
+      <span className="inline-flex items-center text-sm font-medium text-gray-500 uppercase tracking-wide mr-1">
+        <Filter className="h-4 w-4 mr-2" />
+        {t('crossFilter.title')}
+      </span>
+      {CROSS_FILTER_DIMENSIONS.flatMap(dimension =>
+        filter[dimension].map(value => (
+          <span
+            key={`${dimension}:${value}`}
+            className="inline-flex items-center bg-blue-50 border border-blue-100 text-blue-700 rounded-lg text-sm pl-3"
+          >
+            {t(`crossFilter.${dimension}`)}: <span className="font-medium ml-1">{valueLabel(dimension, value)}</span>
+            <button
+              onClick={() => onRemove(dimension, value)}
+              className="px-2 py-1 text-blue-400 hover:text-red-500"
+              title={t('crossFilter.remove')}
+              data-report-ignore
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </span>
+        ))
+      )}
+      <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-900 transition-colors ml-2" data-report-ignore>
+        {t('crossFilter.clear')}
+      </button>
+    </div>
+  );
+};
+
+export default CrossFilterBar;
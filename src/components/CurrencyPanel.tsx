@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Coins, Plus, Trash2 } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { CURRENCIES, type CurrencySettings, type ExchangeRate } from '../lib/currency';
+
+interface CurrencyPanelProps {
+  settings: CurrencySettings;
+  sourceCurrencies: string[];
+  missingRates: Record<string, number>;
+  // Date a newly added rate starts from.
+  defaultDate: string;
+  onChange: (settings: CurrencySettings) => void;
+}
+
+const CurrencyPanel = ({ settings, sourceCurrencies, missingRates, defaultDate, onChange }: CurrencyPanelProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const { reportingCurrency, rates } = settings;
+  const mixed = !reportingCurrency && sourceCurrencies.length > 1;
+  const missing = Object.entries(missingRates);
+
+  const updateRate = (index: number, changes: Partial<ExchangeRate>) => {
+    onChange({ ...settings, rates: rates.map((rate, i) => (i === index ? { ...rate, ...changes } : rate)) });
+  };
+
+  const addRate = () => {
+    const to = reportingCurrency ?? sourceCurrencies[0] ?? CURRENCIES[0];
+    const from = sourceCurrencies.find(currency => currency !== to) ?? CURRENCIES.find(currency => currency !== to) ?? to;
+    onChange({ ...settings, rates: [...rates, { date: defaultDate, from, to, rate: 1 }] });
+    setOpen(true);
+  };
+
+  const removeRate = (index: number) => {
+    onChange({ ...settings, rates: rates.filter((_, i) => i !== index) });
+  };
+
+  const selectClassName = 'px-3 py-1 border border-gray-200 rounded-lg bg-white';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <button onClick={() => setOpen(prev => !prev)} className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-yellow-500 to-amber-500 rounded-lg flex items-center justify-center mr-3">
+            <Coins className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('currency.title')}</h3>
+          <span className="ml-3 text-sm text-gray-500">{t('currency.rates', { count: rates.length })}</span>
+          {open ? <ChevronUp className="ml-2 h-5 w-5 text-gray-500" /> : <ChevronDown className="ml-2 h-5 w-5 text-gray-500" />}
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          {t('currency.reporting')}
+          <select
+            value={reportingCurrency ?? ''}
+            onChange={event => onChange({ ...settings, reportingCurrency: event.target.value || null })}
+            className={selectClassName}
+          >
+            <option value="">{t('currency.noConversion')}</option>
+            {CURRENCIES.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {mixed && (
+        <div className="mt-6 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-sm">
+          {t('currency.mixed', { currencies: sourceCurrencies.join(', ') })}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="mt-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">
+          {t('currency.missing', {
+            currency: reportingCurrency ?? '',
+            missing: missing.map(([currency, count]) => t('currency.missingCount', { currency, count })).join(', ')
+          })}
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">{t('currency.validFrom')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('currency.unit')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('currency.rate')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('currency.target')}</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((rate, index) => (
+                <tr key={index} className="border-t border-gray-100">
+                  <td className="px-3 py-2">
+                    <input
+                      type="date"
+                      value={rate.date}
+                      onChange={event => event.target.value && updateRate(index, { date: event.target.value })}
+                      className="px-3 py-1 border border-gray-200 rounded-lg"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select value={rate.from} onChange={event => updateRate(index, { from: event.target.value })} className={selectClassName}>
+                      {CURRENCIES.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.0001"
+                      value={rate.rate}
+                      onChange={event => updateRate(index, { rate: Number(event.target.value) })}
+                      className="w-32 px-3 py-1 border border-gray-200 rounded-lg"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select value={rate.to} onChange={event => updateRate(index, { to: event.target.value })} className={selectClassName}>
+                      {CURRENCIES.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button onClick={() => removeRate(index)} className="text-gray-400 hover:text-red-500" title={t('common.delete')}>
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rates.length === 0 && (
+            <p className="text-gray-600 text-sm mt-2">{t('currency.empty')}</p>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={addRate}
+        className="mt-6 inline-flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        {t('currency.add')}
+      </button>
+    </div>
+  );
+};
+
+export default CurrencyPanel;
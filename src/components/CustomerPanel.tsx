@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { UserCheck } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { TOOLTIP_STYLE } from '../lib/chartStyle';
+import { summariseSegments, type Cohort, type CustomerProfile } from '../lib/customers';
+
+interface CustomerPanelProps {
+  profiles: CustomerProfile[];
+  cohorts: Cohort[];
+  currency: string;
+}
+
+type CustomerTab = 'cohorts' | 'segments' | 'customers';
+
+const TABS: CustomerTab[] = ['cohorts', 'segments', 'customers'];
+
+const CUSTOMER_LIST_LIMIT = 100;
+
+const CustomerPanel = ({ profiles, cohorts, currency }: CustomerPanelProps) => {
+  const { t, formatNumber, formatMoney, formatDate, formatMonth } = useI18n();
+  const [tab, setTab] = useState<CustomerTab>('cohorts');
+  const [search, setSearch] = useState('');
+
+  const segments = useMemo(
+    () => summariseSegments(profiles).map(segment => ({ ...segment, label: t(`segment.${segment.segment}`) })),
+    [profiles, t]
+  );
+  const customers = useMemo(
+    () => profiles
+      .filter(profile => profile.card.toLowerCase().includes(search.trim().toLowerCase()))
+      .sort((a, b) => b.lifetimeValue - a.lifetimeValue),
+    [profiles, search]
+  );
+
+  const maxOffset = Math.max(0, ...cohorts.map(cohort => cohort.retention.length));
+
+  return (
+    <div data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-violet-500 to-fuchsia-500 rounded-lg flex items-center justify-center mr-3">
+            <UserCheck className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">{t('customers.title')}</h3>
+            <p className="text-sm text-gray-500">{t('customers.subtitle', { count: profiles.length })}</p>
+          </div>
+        </div>
+        <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+          {TABS.map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                tab === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t(`customers.${value}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="text-gray-600">{t('customers.empty')}</p>
+      ) : tab === 'cohorts' ? (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr className="text-gray-500">
+                <th className="px-2 py-1 text-left font-medium">{t('customers.cohort')}</th>
+                <th className="px-2 py-1 text-right font-medium">{t('customers.customers')}</th>
+                {Array.from({ length: maxOffset }, (_, offset) => (
+                  <th key={offset} className="px-2 py-1 font-medium">M{offset}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map(cohort => (
+                <tr key={cohort.cohort}>
+                  <th className="px-2 py-1 text-left font-medium text-gray-700">{formatMonth(cohort.cohort)}</th>
+                  <td className="px-2 py-1 text-right text-gray-700">{formatNumber(cohort.size)}</td>
+                  {cohort.retention.map((share, offset) => (
+                    <td
+                      key={offset}
+                      className="w-12 h-7 text-center rounded"
+                      style={{
+                        backgroundColor: `rgba(139, 92, 246, ${0.05 + (share / 100) * 0.95})`,
+                        color: share > 60 ? '#fff' : '#374151'
+                      }}
+                    >
+                      {formatNumber(share, { maximumFractionDigits: 0 })}%
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : tab === 'segments' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <ResponsiveContainer width="100%" height={320}>
+            <BarChart data={segments}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="label" stroke="#6b7280" fontSize={11} interval={0} angle={-20} textAnchor="end" height={60} />
+              <YAxis stroke="#6b7280" fontSize={12} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend />
+              <Bar dataKey="customers" fill="#8B5CF6" name={t('customers.customers')} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+          <table className="min-w-full text-sm self-start">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">{t('customers.segment')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('customers.customers')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('customers.revenue')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {segments.map(segment => (
+                <tr key={segment.segment} className="border-t border-gray-100">
+                  <td className="px-3 py-2 text-gray-800">{segment.label}</td>
+                  <td className="px-3 py-2 text-right text-gray-800">{formatNumber(segment.customers)}</td>
+                  <td className="px-3 py-2 text-right text-gray-800">{formatMoney(segment.revenue, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <>
+          <input
+            value={search}
+            onChange={event => setSearch(event.target.value)}
+            placeholder={t('customers.search')}
+            className="mb-4 px-3 py-2 border border-gray-200 rounded-lg text-sm w-64"
+          />
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-100 rounded-xl">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">{t('customers.card')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('customers.lifetimeValue')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('customers.orders')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('customers.favouriteProduct')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('customers.lastPurchase')}</th>
+                  <th className="px-3 py-2 text-center font-medium">R / F / M</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('customers.segment')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {customers.slice(0, CUSTOMER_LIST_LIMIT).map(profile => (
+                  <tr key={profile.card} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-800 whitespace-nowrap">{profile.card}</td>
+                    <td className="px-3 py-2 text-right text-gray-800">{formatMoney(profile.lifetimeValue, currency)}</td>
+                    <td className="px-3 py-2 text-right text-gray-800">{formatNumber(profile.orders)}</td>
+                    <td className="px-3 py-2 text-gray-800">{profile.favouriteProduct}</td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatDate(profile.lastPurchase)}</td>
+                    <td className="px-3 py-2 text-center text-gray-600">
+                      {profile.rfm.recency} / {profile.rfm.frequency} / {profile.rfm.monetary}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{t(`segment.${profile.segment}`)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {customers.length > CUSTOMER_LIST_LIMIT && (
+            <p className="mt-2 text-xs text-gray-500">
+              {t('customers.limited', { shown: CUSTOMER_LIST_LIMIT, count: customers.length })}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomerPanel;
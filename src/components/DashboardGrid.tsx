@@ -0,0 +1,159 @@
+import { useState, type ReactNode } from 'react';
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { MessageKey } from '../i18n';
+import {
+  addWidget,
+  hiddenWidgets,
+  moveWidget,
+  removeWidget,
+  updateWidget,
+  WIDGET_SPANS,
+  type DashboardLayout,
+  type WidgetConfig,
+  type WidgetId
+} from '../lib/layout';
+
+interface DashboardGridProps {
+  layout: DashboardLayout;
+  editing: boolean;
+  onChange: (layout: DashboardLayout) => void;
+  renderWidget: (widget: WidgetConfig) => ReactNode;
+}
+
+// Full class names, so Tailwind picks them up.
+const SPAN_CLASSES: Record<number, string> = {
+  2: 'lg:col-span-2',
+  3: 'lg:col-span-3',
+  4: 'lg:col-span-4',
+  6: 'lg:col-span-6'
+};
+
+const SPAN_LABELS: Record<number, string> = { 2: '1/3', 3: '1/2', 4: '2/3', 6: '1/1' };
+
+const WIDGET_TITLES: Record<WidgetId, MessageKey> = {
+  kpis: 'widgets.kpis',
+  timeSeries: 'timeSeries.title',
+  heatmap: 'heatmap.title',
+  customers: 'customers.title',
+  baskets: 'baskets.title',
+  forecast: 'forecast.title',
+  transactions: 'explorer.title',
+  products: 'chart.revenueByProduct',
+  hourly: 'chart.hourly',
+  payments: 'chart.payments',
+  frequency: 'chart.frequency',
+  priceVolume: 'chart.priceVolume',
+  anomalies: 'anomalies.title',
+  insights: 'insights.title'
+};
+
+const DashboardGrid = ({ layout, editing, onChange, renderWidget }: DashboardGridProps) => {
+  const { t } = useI18n();
+  const [dragged, setDragged] = useState<WidgetId | null>(null);
+  const hidden = hiddenWidgets(layout);
+
+  const dropOn = (target: WidgetId) => {
+    if (dragged && dragged !== target) {
+      const from = layout.findIndex(widget => widget.id === dragged);
+      const to = layout.findIndex(widget => widget.id === target);
+      onChange(moveWidget(layout, dragged, to - from));
+    }
+    setDragged(null);
+  };
+
+  const buttonClassName = 'p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-6 gap-x-8">
+      {layout.length === 0 && !editing && (
+        <div className="lg:col-span-6 p-8 bg-white/80 rounded-2xl shadow-lg border border-white/20 text-center text-gray-600 mb-8">
+          {t('layout.empty')}
+        </div>
+      )}
+      {layout.map((widget, index) => (
+        <div
+          key={widget.id}
+          className={`min-w-0 ${SPAN_CLASSES[widget.span]} ${dragged === widget.id ? 'opacity-50' : ''}`}
+          onDragOver={event => editing && dragged && event.preventDefault()}
+          onDrop={() => dropOn(widget.id)}
+        >
+          {editing && (
+            <div
+              draggable
+              onDragStart={() => setDragged(widget.id)}
+              onDragEnd={() => setDragged(null)}
+              className="flex flex-wrap items-center gap-2 mb-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm cursor-move"
+              data-report-ignore
+            >
+              <GripVertical className="h-4 w-4 text-blue-400" />
+              <span className="font-medium text-gray-800 truncate">{t(WIDGET_TITLES[widget.id])}</span>
+              <div className="ml-auto flex items-center gap-1">
+                <div className="inline-flex bg-white rounded-md border border-gray-200 mr-2" title={t('layout.width')}>
+                  {WIDGET_SPANS.map(span => (
+                    <button
+                      key={span}
+                      onClick={() => onChange(updateWidget(layout, widget.id, { span }))}
+                      className={`px-2 py-0.5 text-xs rounded-md transition-colors ${
+                        widget.span === span ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {SPAN_LABELS[span]}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => onChange(moveWidget(layout, widget.id, -1))}
+                  disabled={index === 0}
+                  className={buttonClassName}
+                  title={t('layout.moveUp')}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onChange(moveWidget(layout, widget.id, 1))}
+                  disabled={index === layout.length - 1}
+                  className={buttonClassName}
+                  title={t('layout.moveDown')}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onChange(removeWidget(layout, widget.id))}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                  title={t('layout.remove')}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+          {renderWidget(widget)}
+        </div>
+      ))}
+      {editing && (
+        <div className="lg:col-span-6 mb-8 p-6 border-2 border-dashed border-gray-300 rounded-2xl" data-report-ignore>
+          {hidden.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center">{t('layout.allShown')}</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-600 mr-2">{t('layout.add')}</span>
+              {hidden.map(id => (
+                <button
+                  key={id}
+                  onClick={() => onChange(addWidget(layout, id))}
+                  className="inline-flex items-center px-3 py-1 bg-white border border-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t(WIDGET_TITLES[id])}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashboardGrid;
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Check, Database, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { DatasetMeta } from '../lib/storage';
+
+interface DatasetLibraryProps {
+  datasets: DatasetMeta[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const DatasetLibrary = ({ datasets, activeId, onOpen, onRename, onDelete }: DatasetLibraryProps) => {
+  const { t, formatNumber, formatDateTime } = useI18n();
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) {
+      onRename(editing.id, editing.name.trim());
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8 text-left">
+      <div className="flex items-center mb-6">
+        <div className="w-10 h-10 bg-gradient-to-r from-slate-500 to-gray-600 rounded-lg flex items-center justify-center mr-3">
+          <Database className="h-5 w-5 text-white" />
+        </div>
+        <div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('library.title')}</h3>
+          <p className="text-sm text-gray-500">{t('library.subtitle')}</p>
+        </div>
+      </div>
+      {datasets.length === 0 ? (
+        <p className="text-gray-600 text-sm">{t('library.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">{t('library.name')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('library.files')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('library.importedAt')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('library.rows')}</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {datasets.map(dataset => (
+                <tr key={dataset.id} className={`border-t border-gray-100 ${dataset.id === activeId ? 'bg-blue-50' : ''}`}>
+                  <td className="px-3 py-2 text-gray-800">
+                    {editing?.id === dataset.id ? (
+                      <input
+                        autoFocus
+                        value={editing.name}
+                        onChange={event => setEditing({ id: dataset.id, name: event.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={event => {
+                          if (event.key === 'Enter') commitRename();
+                          if (event.key === 'Escape') setEditing(null);
+                        }}
+                        className="px-2 py-1 border border-gray-200 rounded-lg w-full"
+                      />
+                    ) : (
+                      <span className="font-medium">{dataset.name}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">{dataset.fileNames.join(', ')}</td>
+                  <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatDateTime(dataset.importedAt)}</td>
+                  <td className="px-3 py-2 text-right text-gray-800">{formatNumber(dataset.rowCount)}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      {editing?.id === dataset.id ? (
+                        <button onMouseDown={commitRename} className="text-gray-400 hover:text-green-600" title={t('common.save')}>
+                          <Check className="h-4 w-4" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setEditing({ id: dataset.id, name: dataset.name })}
+                          className="text-gray-400 hover:text-blue-600"
+                          title={t('library.rename')}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      )}
+                      {dataset.id !== activeId && (
+                        <button onClick={() => onOpen(dataset.id)} className="text-gray-400 hover:text-blue-600" title={t('library.open')}>
+                          <FolderOpen className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          if (window.confirm(t('library.confirmDelete', { name: dataset.name }))) onDelete(dataset.id);
+                        }}
+                        className="text-gray-400 hover:text-red-500"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatasetLibrary;
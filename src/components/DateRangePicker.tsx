@@ -0,0 +1,57 @@
+import { Calendar } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { DATE_RANGE_PRESETS, type DateRange, type ResolvedDateRange } from '../lib/dateRange';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  resolved: ResolvedDateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const DateRangePicker = ({ value, resolved, onChange }: DateRangePickerProps) => {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <Calendar className="h-5 w-5 text-gray-500" />
+      <div className="inline-flex flex-wrap bg-white rounded-lg border border-gray-200 p-1">
+        {DATE_RANGE_PRESETS.map(preset => (
+          <button
+            key={preset}
+            onClick={() => onChange({ preset, from: resolved.from, to: resolved.to })}
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              value.preset === preset ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {t(`dateRange.${preset}`)}
+          </button>
+        ))}
+      </div>
+      {value.preset === 'custom' ? (
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={value.from ?? ''}
+            max={value.to ?? undefined}
+            onChange={event => onChange({ ...value, from: event.target.value || null })}
+            className="px-3 py-1 border border-gray-200 rounded-lg"
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="date"
+            value={value.to ?? ''}
+            min={value.from ?? undefined}
+            onChange={event => onChange({ ...value, to: event.target.value || null })}
+            className="px-3 py-1 border border-gray-200 rounded-lg"
+          />
+        </div>
+      ) : (
+        resolved.from && (
+          <span className="text-sm text-gray-500">{formatDate(resolved.from)} – {resolved.to && formatDate(resolved.to)}</span>
+        )
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,59 @@
+import { useState, type RefObject } from 'react';
+import { FileSpreadsheet, Image, Table } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { exportChartPng, exportChartSvg, exportCsv, exportXlsx, type TableRow } from '../lib/export';
+
+interface ExportMenuProps {
+  chartRef?: RefObject<HTMLElement | null>;
+  rows?: TableRow[];
+  fileName: string;
+}
+
+const ExportMenu = ({ chartRef, rows, fileName }: ExportMenuProps) => {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => unknown) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(t('export.failed', { message: err instanceof Error ? err.message : t('common.unknownError') }));
+    }
+  };
+
+  const exportChart = (exporter: (container: HTMLElement, fileName: string) => unknown) => {
+    const container = chartRef?.current;
+    if (container) run(() => exporter(container, fileName));
+  };
+
+  const buttonClassName = 'inline-flex items-center px-2 py-1 text-xs text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors';
+
+  return (
+    <div className="ml-auto flex items-center gap-1" data-report-ignore>
+      {error && <span className="text-xs text-red-600 mr-2">{error}</span>}
+      {chartRef && (
+        <>
+          <button onClick={() => exportChart(exportChartPng)} className={buttonClassName} title="PNG">
+            <Image className="h-3 w-3 mr-1" />PNG
+          </button>
+          <button onClick={() => exportChart(exportChartSvg)} className={buttonClassName} title="SVG">
+            <Image className="h-3 w-3 mr-1" />SVG
+          </button>
+        </>
+      )}
+      {rows && (
+        <>
+          <button onClick={() => run(() => exportCsv(rows, fileName))} className={buttonClassName} title="CSV">
+            <Table className="h-3 w-3 mr-1" />CSV
+          </button>
+          <button onClick={() => run(() => exportXlsx(rows, fileName))} className={buttonClassName} title="XLSX">
+            <FileSpreadsheet className="h-3 w-3 mr-1" />XLSX
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,279 @@
+import { useMemo, useRef, useState } from 'react';
+import { Area, Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { TOOLTIP_STYLE } from '../lib/chartStyle';
+import { dayOfWeek } from '../lib/dates';
+import { FIT_WINDOW, FORECAST_WEEKS, MIN_HISTORY, type DemandForecast, type ForecastPoint } from '../lib/forecast';
+import ExportMenu from './ExportMenu';
+
+interface ForecastPanelProps {
+  // Computed in the analytics worker for `weeks`; null until the first forecast arrives.
+  forecast: DemandForecast | null;
+  weeks: number;
+  currency: string;
+  onWeeksChange: (weeks: number) => void;
+}
+
+type ForecastTab = 'revenue' | 'products' | 'hourly' | 'backtest';
+
+const TABS: ForecastTab[] = ['revenue', 'products', 'hourly', 'backtest'];
+
+// Days of actual revenue shown before the forecast.
+const HISTORY_DAYS = 28;
+
+const NO_FORECAST: DemandForecast = {
+  revenue: [],
+  revenueForecast: [],
+  ordersForecast: [],
+  profile: [],
+  backtest: null,
+  products: []
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const roundPoint = (point: ForecastPoint) => ({
+  date: point.date,
+  forecast: round(point.forecast),
+  lower: round(point.lower),
+  upper: round(point.upper)
+});
+
+const ForecastPanel = ({ forecast, weeks, currency, onWeeksChange }: ForecastPanelProps) => {
+  const { t, formatNumber, formatMoney, formatDate, weekdayName } = useI18n();
+  const [tab, setTab] = useState<ForecastTab>('revenue');
+  const [hourlyDay, setHourlyDay] = useState(0);
+  const days = weeks * 7;
+  const {
+    revenue,
+    revenueForecast,
+    ordersForecast,
+    profile,
+    backtest: revenueBacktest,
+    products
+  } = forecast ?? NO_FORECAST;
+
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const revenueRows = useMemo(() => {
+    const history = revenue.slice(-HISTORY_DAYS);
+    const last = history[history.length - 1];
+    return [
+      ...history.map(day => ({
+        label: formatDate(day.date),
+        actual: round(day.value),
+        // The last actual day also starts the forecast line, so the two lines join.
+        ...(day === last ? { forecast: round(day.value), band: [round(day.value), round(day.value)] } : {})
+      })),
+      ...revenueForecast.map(point => ({
+        label: formatDate(point.date),
+        forecast: round(point.forecast),
+        band: [round(point.lower), round(point.upper)]
+      }))
+    ];
+  }, [revenue, revenueForecast, formatDate]);
+
+  const selectedDay = ordersForecast[Math.min(hourlyDay, ordersForecast.length - 1)];
+  const hourlyRows = useMemo(() => {
+    if (!selectedDay) return [];
+    const shares = profile[dayOfWeek(selectedDay.date)];
+    return shares
+      .map((share, hour) => ({
+        hour: `${hour}:00`,
+        orders: round(selectedDay.forecast * share),
+        band: [round(selectedDay.lower * share), round(selectedDay.upper * share)]
+      }))
+      .filter((_, hour) => shares[hour] > 0);
+  }, [selectedDay, profile]);
+
+  const backtestRows = (revenueBacktest?.points ?? []).map(point => ({
+    label: formatDate(point.date),
+    actual: round(point.actual),
+    forecast: round(point.forecast),
+    band: [round(point.lower), round(point.upper)]
+  }));
+
+  const exportRows =
+    tab === 'revenue'
+      ? revenueForecast.map(roundPoint)
+      : tab === 'products'
+        ? products.map(product => ({
+            product: product.product,
+            units: round(product.units),
+            lower: round(product.lower),
+            upper: round(product.upper),
+            perDay: round(product.perDay),
+            backtestError: product.backtestError === null ? '' : round(product.backtestError)
+          }))
+        : tab === 'hourly'
+          ? hourlyRows.map(row => ({ hour: row.hour, orders: row.orders, lower: row.band[0], upper: row.band[1] }))
+          : (revenueBacktest?.points ?? []).map(point => ({ ...roundPoint(point), actual: round(point.actual) }));
+
+  const formatBand = (value: unknown) =>
+    Array.isArray(value) ? `${formatNumber(value[0])} – ${formatNumber(value[1])}` : formatNumber(Number(value));
+
+  return (
+    <div ref={chartRef} data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-violet-500 to-fuchsia-500 rounded-lg flex items-center justify-center mr-3">
+            <TrendingUp className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">{t('forecast.title')}</h3>
+            <p className="text-sm text-gray-500">{t('forecast.subtitle', { days: FIT_WINDOW })}</p>
+          </div>
+        </div>
+        <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+          {FORECAST_WEEKS.map(value => (
+            <button
+              key={value}
+              onClick={() => onWeeksChange(value)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                weeks === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t('forecast.weeks', { count: value })}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!forecast ? (
+        <div className="flex justify-center p-8">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+        </div>
+      ) : revenueForecast.length === 0 ? (
+        <p className="text-gray-600">{t('forecast.notEnough', { days: MIN_HISTORY })}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+              {TABS.map(value => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                    tab === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {t(`forecast.${value}`)}
+                </button>
+              ))}
+            </div>
+            {tab === 'hourly' && (
+              <label className="text-sm text-gray-600 flex items-center gap-2">
+                {t('forecast.day')}
+                <select
+                  value={Math.min(hourlyDay, ordersForecast.length - 1)}
+                  onChange={event => setHourlyDay(Number(event.target.value))}
+                  className="px-2 py-1 border border-gray-200 rounded-lg bg-white"
+                >
+                  {ordersForecast.map((point, index) => (
+                    <option key={point.date} value={index}>
+                      {weekdayName(dayOfWeek(point.date), 'short')} {formatDate(point.date)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <ExportMenu
+              chartRef={tab === 'products' ? undefined : chartRef}
+              rows={exportRows}
+              fileName={`${t('forecast.fileName')}_${tab}`}
+            />
+          </div>
+
+          {tab === 'revenue' ? (
+            <ResponsiveContainer width="100%" height={320}>
+              <ComposedChart data={revenueRows}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="label" stroke="#6b7280" fontSize={12} />
+                <YAxis stroke="#6b7280" fontSize={12} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={formatBand} />
+                <Legend />
+                <Area type="monotone" dataKey="band" stroke="none" fill="#C4B5FD" fillOpacity={0.4} name={t('forecast.band')} />
+                <Line type="monotone" dataKey="actual" stroke="#10B981" strokeWidth={2} dot={false} name={t('forecast.actual')} />
+                <Line type="monotone" dataKey="forecast" stroke="#8B5CF6" strokeWidth={3} strokeDasharray="5 5" dot={false} name={t('forecast.forecast')} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : tab === 'products' ? (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-100 rounded-xl">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">{t('forecast.product')}</th>
+                    <th className="px-3 py-2 text-right font-medium">{t('forecast.units')}</th>
+                    <th className="px-3 py-2 text-right font-medium">{t('forecast.band')}</th>
+                    <th className="px-3 py-2 text-right font-medium">{t('forecast.perDay')}</th>
+                    <th className="px-3 py-2 text-right font-medium">{t('forecast.backtestError')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map(product => (
+                    <tr key={product.product} className="border-t border-gray-100">
+                      <td className="px-3 py-2 text-gray-800">{product.product}</td>
+                      <td className="px-3 py-2 text-right font-medium text-gray-800">{formatNumber(Math.round(product.units))}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {formatNumber(Math.round(product.lower))} – {formatNumber(Math.round(product.upper))}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {formatNumber(product.perDay, { maximumFractionDigits: 1 })}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {product.backtestError === null
+                          ? '—'
+                          : `${formatNumber(product.backtestError, { maximumFractionDigits: 1 })}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : tab === 'hourly' ? (
+            <ResponsiveContainer width="100%" height={320}>
+              <ComposedChart data={hourlyRows}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="hour" stroke="#6b7280" fontSize={12} />
+                <YAxis stroke="#6b7280" fontSize={12} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={formatBand} />
+                <Legend />
+                <Bar dataKey="orders" fill="#8B5CF6" radius={[4, 4, 0, 0]} name={t('forecast.orders')} />
+                <Area type="monotone" dataKey="band" stroke="none" fill="#C4B5FD" fillOpacity={0.4} name={t('forecast.band')} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : revenueBacktest ? (
+            <>
+              <ResponsiveContainer width="100%" height={320}>
+                <ComposedChart data={backtestRows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="label" stroke="#6b7280" fontSize={12} />
+                  <YAxis stroke="#6b7280" fontSize={12} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} formatter={formatBand} />
+                  <Legend />
+                  <Area type="monotone" dataKey="band" stroke="none" fill="#C4B5FD" fillOpacity={0.4} name={t('forecast.band')} />
+                  <Line type="monotone" dataKey="actual" stroke="#10B981" strokeWidth={2} dot={{ r: 3 }} name={t('forecast.actual')} />
+                  <Line type="monotone" dataKey="forecast" stroke="#8B5CF6" strokeWidth={3} strokeDasharray="5 5" dot={false} name={t('forecast.forecast')} />
+                </ComposedChart>
+              </ResponsiveContainer>
+              <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+                <span>{t('forecast.backtestHint', { date: formatDate(revenueBacktest.points[0].date) })}</span>
+                <span>{t('forecast.mae', { value: formatMoney(revenueBacktest.mae, currency) })}</span>
+                {revenueBacktest.mape !== null && (
+                  <span>
+                    {t('forecast.mape', { value: formatNumber(revenueBacktest.mape, { maximumFractionDigits: 1 }) })}
+                  </span>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-600">{t('forecast.notEnough', { days: MIN_HISTORY + days })}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForecastPanel;
@@ -0,0 +1,153 @@
+import { useMemo, useState } from 'react';
+import { Grid3x3, X } from 'lucide-react';
+import ExportMenu from './ExportMenu';
+import { useI18n } from '../i18n/context';
+import type { DailySales } from '../lib/analytics';
+import {
+  buildHeatmap,
+  cellValue,
+  filterHeatmapCell,
+  heatmapToRows,
+  type HeatmapMetric
+} from '../lib/heatmap';
+import type { SalesRecord } from '../types';
+
+interface HeatmapPanelProps {
+  days: DailySales[];
+  // The same sales as records, listed for the selected cell.
+  data: SalesRecord[];
+  currency: string;
+}
+
+const METRICS: HeatmapMetric[] = ['orders', 'revenue'];
+
+const HeatmapPanel = ({ days, data, currency }: HeatmapPanelProps) => {
+  const { t, formatNumber, formatMoney, formatDateTime, weekdayName } = useI18n();
+  const [metric, setMetric] = useState<HeatmapMetric>('orders');
+  const [selected, setSelected] = useState<{ weekday: number; hour: number } | null>(null);
+
+  const heatmap = useMemo(() => buildHeatmap(days), [days]);
+  const transactions = useMemo(
+    () => selected ? filterHeatmapCell(data, selected.weekday, selected.hour) : [],
+    [data, selected]
+  );
+
+  const formatValue = (value: number) => metric === 'orders'
+    ? formatNumber(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+    : formatMoney(value, currency);
+
+  return (
+    <div data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-rose-500 to-orange-500 rounded-lg flex items-center justify-center mr-3">
+            <Grid3x3 className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">{t('heatmap.title')}</h3>
+            <p className="text-sm text-gray-500">{t('heatmap.subtitle')}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+            {METRICS.map(value => (
+              <button
+                key={value}
+                onClick={() => setMetric(value)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  metric === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {t(`heatmap.${value}`)}
+              </button>
+            ))}
+          </div>
+          <ExportMenu rows={heatmapToRows(heatmap, metric, weekday => weekdayName(weekday))} fileName={t(`heatmap.fileName.${metric}`)} />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th />
+              {heatmap.hours.map(hour => (
+                <th key={hour} className="px-1 py-1 font-medium text-gray-500">{hour}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heatmap.cells.map((row, weekday) => (
+              <tr key={weekday}>
+                <th className="pr-3 text-left font-medium text-gray-600 whitespace-nowrap">
+                  {weekdayName(weekday)}
+                  <span className="ml-1 text-gray-400 font-normal">({heatmap.tradingDays[weekday]})</span>
+                </th>
+                {heatmap.hours.map(hour => {
+                  const cell = row[hour];
+                  const value = cellValue(cell, metric);
+                  const intensity = heatmap.max[metric] ? value / heatmap.max[metric] : 0;
+                  const isSelected = selected?.weekday === weekday && selected.hour === hour;
+                  return (
+                    <td
+                      key={hour}
+                      onClick={() => setSelected(isSelected ? null : { weekday, hour })}
+                      title={`${weekdayName(weekday)} ${hour}:00 — ${formatValue(value)}`}
+                      className={`w-10 h-8 text-center rounded cursor-pointer ${isSelected ? 'ring-2 ring-blue-600' : ''}`}
+                      style={{
+                        backgroundColor: `rgba(249, 115, 22, ${0.05 + intensity * 0.95})`,
+                        color: intensity > 0.6 ? '#fff' : '#374151'
+                      }}
+                    >
+                      {cell.orders > 0 ? formatNumber(value, { maximumFractionDigits: metric === 'orders' ? 1 : 0, minimumFractionDigits: metric === 'orders' ? 1 : 0 }) : ''}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold text-gray-900">
+              {weekdayName(selected.weekday)}, {selected.hour}:00 – {selected.hour + 1}:00
+              <span className="ml-2 text-sm font-normal text-gray-500">{t('heatmap.transactions', { count: transactions.length })}</span>
+            </h4>
+            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-700 transition-colors" title={t('common.close')}>
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-80 overflow-y-auto border border-gray-100 rounded-xl">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">{t('transaction.datetime')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('transaction.product')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('transaction.amount')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('transaction.payment')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('transaction.card')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((record, index) => (
+                  <tr key={index} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-800 whitespace-nowrap">{formatDateTime(record.datetime)}</td>
+                    <td className="px-3 py-2 text-gray-800">{record.coffee_name}</td>
+                    <td className="px-3 py-2 text-right text-gray-800">{formatMoney(record.money, currency)}</td>
+                    <td className="px-3 py-2 text-gray-600">{record.cash_type}</td>
+                    <td className="px-3 py-2 text-gray-600">{record.card}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeatmapPanel;
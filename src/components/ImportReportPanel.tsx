@@ -0,0 +1,76 @@
+import { AlertTriangle, CheckCircle, Download, X } from 'lucide-react';
+import { downloadFile } from '../lib/download';
+import { useI18n } from '../i18n/context';
+import { countByReason, rejectedRowsToCsv, type RejectionReason } from '../lib/validation';
+import type { DataSource } from '../types';
+
+interface ImportReportPanelProps {
+  sources: DataSource[];
+  onClose: () => void;
+}
+
+const ImportReportPanel = ({ sources, onClose }: ImportReportPanelProps) => {
+  const { t, formatNumber } = useI18n();
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-amber-500 to-orange-500 rounded-lg flex items-center justify-center mr-3">
+            <AlertTriangle className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('importReport.title')}</h3>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700 transition-colors" title={t('common.close')}>
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {sources.map(({ id, report }) => {
+          const reasonCounts = Object.entries(countByReason(report.rejected)) as [RejectionReason, number][];
+          return (
+            <div key={id} className="p-6 bg-gray-50 rounded-xl border border-gray-100">
+              <h4 className="font-semibold text-gray-900 mb-3">{report.fileName}</h4>
+              <div className="flex gap-6 mb-4 text-sm">
+                <span className="flex items-center text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {t('importReport.accepted', { count: report.acceptedRows })}
+                </span>
+                <span className="flex items-center text-red-700">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {t('importReport.rejected', { count: report.rejected.length })}
+                </span>
+                <span className="text-gray-500">{t('importReport.total', { count: report.totalRows })}</span>
+              </div>
+              {reasonCounts.length > 0 && (
+                <>
+                  <ul className="text-sm text-gray-700 mb-4 space-y-1">
+                    {reasonCounts.map(([reason, count]) => (
+                      <li key={reason} className="flex justify-between">
+                        <span>{t(`rejection.${reason}`)}</span>
+                        <span className="font-semibold">{formatNumber(count)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => downloadFile(
+                      rejectedRowsToCsv(report.rejected, reason => t(`rejection.${reason}`)),
+                      `${report.fileName.replace(/\.csv$/i, '')}_${t('importReport.fileSuffix')}.csv`,
+                      'text/csv;charset=utf-8'
+                    )}
+                    className="inline-flex items-center px-3 py-2 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 transition-colors"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {t('importReport.download')}
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportPanel;
@@ -0,0 +1,43 @@
+import type { LucideIcon } from 'lucide-react';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { Delta } from '../lib/comparison';
+
+interface KpiCardProps {
+  title: string;
+  value: string;
+  icon: LucideIcon;
+  gradient: string;
+  delta?: Delta | null;
+  formatDelta?: (value: number) => string;
+}
+
+const KpiCard = ({ title, value, icon: Icon, gradient, delta, formatDelta }: KpiCardProps) => {
+  const { formatNumber } = useI18n();
+  const direction = !delta || delta.absolute === 0 ? 'flat' : delta.absolute > 0 ? 'up' : 'down';
+  const DeltaIcon = direction === 'up' ? ArrowUpRight : direction === 'down' ? ArrowDownRight : Minus;
+  const deltaColor = direction === 'up' ? 'text-green-600' : direction === 'down' ? 'text-red-600' : 'text-gray-500';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-white/20 hover:shadow-xl transition-all duration-300">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-500 uppercase tracking-wide">{title}</p>
+          <p className="text-3xl font-bold text-gray-900 mt-1">{value}</p>
+          {delta && (
+            <p className={`flex items-center text-sm font-medium mt-2 ${deltaColor}`}>
+              <DeltaIcon className="h-4 w-4 mr-1" />
+              {delta.absolute > 0 ? '+' : delta.absolute < 0 ? '−' : ''}{(formatDelta ?? formatNumber)(Math.abs(delta.absolute))}
+              {delta.percent !== null && ` (${delta.percent > 0 ? '+' : ''}${formatNumber(delta.percent, { maximumFractionDigits: 1 })}%)`}
+            </p>
+          )}
+        </div>
+        <div className={`w-12 h-12 bg-gradient-to-r ${gradient} rounded-xl flex items-center justify-center`}>
+          <Icon className="h-6 w-6 text-white" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KpiCard;
@@ -0,0 +1,26 @@
+import { Languages } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { LANGUAGES } from '../i18n';
+
+const LanguageSwitcher = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <div className="inline-flex items-center bg-white rounded-lg border border-gray-200 p-1" title={t('app.language')}>
+      <Languages className="h-4 w-4 mx-2 text-gray-500" />
+      {LANGUAGES.map(option => (
+        <button
+          key={option.language}
+          onClick={() => setLanguage(option.language)}
+          className={`px-3 py-1 text-sm rounded-md transition-colors ${
+            language === option.language ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,341 @@
+import { useEffect, useRef, useState } from 'react';
+import { Columns, Save } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import {
+  createCsvImport,
+  CsvImportError,
+  type CsvContents,
+  type CsvImport,
+  type MappingPreview,
+  type ParseProgress
+} from '../lib/csv';
+import { CURRENCIES } from '../lib/currency';
+import {
+  DATE_FORMATS,
+  DEFAULT_OPTIONS,
+  DELIMITERS,
+  isMappingComplete,
+  loadPresets,
+  MAPPED_FIELDS,
+  savePresets,
+  suggestMapping,
+  suggestOptions,
+  type ColumnMapping,
+  type DateFormat,
+  type DecimalSeparator,
+  type Delimiter,
+  type ImportOptions,
+  type MappedField,
+  type MappingPreset,
+  type MappingResult
+} from '../lib/mapping';
+
+interface MappingWizardProps {
+  file: File;
+  position: number;
+  total: number;
+  sourceId: string;
+  defaultCurrency: string;
+  onConfirm: (result: MappingResult, currency: string) => void;
+  onSkip: () => void;
+}
+
+const MappingWizard = ({ file, position, total, sourceId, defaultCurrency, onConfirm, onSkip }: MappingWizardProps) => {
+  const { t, formatNumber } = useI18n();
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_OPTIONS);
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [csv, setCsv] = useState<CsvContents | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = useState<MappingPreview | null>(null);
+  const [presets, setPresets] = useState<MappingPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const [importing, setImporting] = useState(false);
+  // Whatever the worker rejected with; translated when rendered.
+  const [error, setError] = useState<unknown>(null);
+  const csvImport = useRef<CsvImport | null>(null);
+  const suggested = useRef(false);
+  // Until a new parse finishes, the worker still holds rows split with the previous delimiter.
+  const parsing = progress !== null;
+
+  useEffect(() => {
+    const current = createCsvImport(file);
+    csvImport.current = current;
+    return () => current.cancel();
+  }, [file]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProgress({ loaded: 0, total: file.size });
+    setPreview(null);
+    csvImport.current?.read(options.delimiter, next => !cancelled && setProgress(next))
+      .then(contents => {
+        if (cancelled) return;
+        setCsv(contents);
+        setProgress(null);
+        setError(null);
+        setMapping(prev =>
+          prev && Object.values(prev).every(column => !column || contents.headers.includes(column))
+            ? prev
+            : suggestMapping(contents.headers)
+        );
+        if (!suggested.current) {
+          suggested.current = true;
+          const { decimalSeparator, dateFormat } = suggestOptions(contents.sample, suggestMapping(contents.headers), options.delimiter);
+          setOptions(prev => ({ ...prev, decimalSeparator, dateFormat }));
+        }
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setCsv(null);
+        setProgress(null);
+        setError(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, options.delimiter]);
+
+  useEffect(() => {
+    if (!csv || !mapping || parsing) return;
+    let cancelled = false;
+    csvImport.current?.preview(mapping, options, sourceId)
+      .then(next => !cancelled && setPreview(next))
+      .catch(err => !cancelled && setError(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [csv, mapping, options, sourceId, parsing]);
+
+  const confirm = () => {
+    if (!mapping || !csvImport.current || parsing) return;
+    setImporting(true);
+    csvImport.current.map(mapping, options, sourceId)
+      .then(result => onConfirm(result, currency))
+      .catch(err => {
+        setImporting(false);
+        setError(err);
+      });
+  };
+
+  const updateMapping = (field: MappedField, column: string) => {
+    setMapping(prev => prev && { ...prev, [field]: column || null });
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(candidate => candidate.name === name);
+    if (!preset) return;
+    setMapping(preset.mapping);
+    setOptions(preset.options);
+    if (preset.currency) setCurrency(preset.currency);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || !mapping) return;
+    const next = [...presets.filter(preset => preset.name !== name), { name, mapping, options, currency }];
+    savePresets(next);
+    setPresets(next);
+    setPresetName('');
+  };
+
+  const deletePreset = (name: string) => {
+    const next = presets.filter(preset => preset.name !== name);
+    savePresets(next);
+    setPresets(next);
+  };
+
+  const megabytes = (bytes: number) =>
+    formatNumber(bytes / 1024 / 1024, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8 max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center mb-6">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-500 rounded-lg flex items-center justify-center mr-3">
+            <Columns className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">{t('wizard.title')}</h3>
+            <p className="text-sm text-gray-500">{file.name} ({position} / {total})</p>
+          </div>
+        </div>
+
+        {error !== null && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl text-sm">
+            {t('wizard.readError', {
+              message: error instanceof CsvImportError
+                ? t(`wizard.error.${error.code}`, { detail: error.detail })
+                : t('common.unknownError')
+            })}
+          </div>
+        )}
+
+        {progress && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+              <span>{t('wizard.loading', { loaded: megabytes(progress.loaded), total: megabytes(progress.total) })}</span>
+              <button onClick={onSkip} className="text-gray-500 hover:text-red-600 transition-colors">
+                {t('common.cancel')}
+              </button>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-600 to-purple-600 transition-all"
+                style={{ width: `${progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {presets.length > 0 && (
+          <div className="mb-6">
+            <p className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-2">{t('wizard.presets')}</p>
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <div key={preset.name} className="flex items-center bg-blue-50 border border-blue-100 rounded-lg">
+                  <button onClick={() => applyPreset(preset.name)} className="px-3 py-1 text-sm text-blue-700 hover:text-blue-900">
+                    {preset.name}
+                  </button>
+                  <button onClick={() => deletePreset(preset.name)} className="px-2 text-gray-400 hover:text-red-500" title={t('common.delete')}>
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <label className="text-sm text-gray-700">
+            {t('wizard.delimiter')}
+            <select
+              value={options.delimiter}
+              onChange={event => setOptions(prev => ({ ...prev, delimiter: event.target.value as Delimiter }))}
+              className={selectClassName}
+            >
+              {DELIMITERS.map(({ value, name }) => (
+                <option key={name} value={value}>{t(`delimiter.${name}`)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('wizard.decimalSeparator')}
+            <select
+              value={options.decimalSeparator}
+              onChange={event => setOptions(prev => ({ ...prev, decimalSeparator: event.target.value as DecimalSeparator }))}
+              className={selectClassName}
+            >
+              <option value=".">{t('wizard.decimalPoint')}</option>
+              <option value=",">{t('wizard.decimalComma')}</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('wizard.dateFormat')}
+            <select
+              value={options.dateFormat}
+              onChange={event => setOptions(prev => ({ ...prev, dateFormat: event.target.value as DateFormat }))}
+              className={selectClassName}
+            >
+              {DATE_FORMATS.map(format => (
+                <option key={format} value={format}>{format}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('wizard.currency')}
+            <select value={currency} onChange={event => setCurrency(event.target.value)} className={selectClassName}>
+              {CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {csv && mapping && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            {MAPPED_FIELDS.map(({ field, required }) => (
+              <label key={field} className="text-sm text-gray-700">
+                {t(`field.${field}`)}{required && <span className="text-red-500"> *</span>}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={event => updateMapping(field, event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">{t('wizard.noColumn')}</option>
+                  {csv.headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {preview && (
+          <div className="mb-6">
+            <p className="text-sm text-gray-600 mb-3">
+              {t('wizard.preview', { accepted: preview.accepted, count: csv?.rowCount ?? 0 })}
+              {preview.rejected > 0 && t('wizard.previewRejected', { count: preview.rejected })}.
+            </p>
+            <div className="overflow-x-auto border border-gray-100 rounded-xl">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    {MAPPED_FIELDS.map(({ field }) => (
+                      <th key={field} className="px-3 py-2 text-left font-medium">{t(`field.${field}`)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.sample.map((record, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      {MAPPED_FIELDS.map(({ field }) => (
+                        <td key={field} className="px-3 py-2 text-gray-800 whitespace-nowrap">{String(record[field])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <input
+              value={presetName}
+              onChange={event => setPresetName(event.target.value)}
+              placeholder={t('wizard.presetName')}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+            <button
+              onClick={savePreset}
+              disabled={!presetName.trim() || !mapping}
+              className="inline-flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {t('common.save')}
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={onSkip} className="px-4 py-2 text-gray-600 hover:text-gray-900 transition-colors">
+              {t('wizard.skip')}
+            </button>
+            <button
+              onClick={confirm}
+              disabled={!mapping || !isMappingComplete(mapping) || !preview || parsing || importing}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50"
+            >
+              {importing ? t('wizard.importing') : t('wizard.import')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingWizard;
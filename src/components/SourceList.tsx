@@ -0,0 +1,73 @@
+import { FileText, X } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { CURRENCIES } from '../lib/currency';
+import type { DataSource } from '../types';
+
+interface SourceListProps {
+  sources: DataSource[];
+  // Per source id, the sales already imported from an earlier file.
+  duplicates: Record<string, number>;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  onShowReport: (id: string) => void;
+  onCurrencyChange: (id: string, currency: string) => void;
+}
+
+const SourceList = ({ sources, duplicates, onToggle, onRemove, onShowReport, onCurrencyChange }: SourceListProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap gap-3 mb-8">
+      {sources.map(source => (
+        <div
+          key={source.id}
+          className={`flex items-center px-4 py-2 rounded-xl border transition-colors ${
+            source.enabled ? 'bg-white border-blue-200 shadow-sm' : 'bg-gray-100 border-gray-200 opacity-60'
+          }`}
+        >
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={source.enabled}
+              onChange={() => onToggle(source.id)}
+              className="mr-2"
+            />
+            <FileText className="h-4 w-4 text-blue-600 mr-2" />
+            <span className="text-sm font-medium text-gray-800">{source.name}</span>
+            <span className="text-xs text-gray-500 ml-2">
+              {t('sources.records', { count: source.records.length })}
+              {duplicates[source.id] > 0 && `, ${t('sources.duplicates', { count: duplicates[source.id] })}`}
+            </span>
+          </label>
+          <select
+            value={source.currency}
+            onChange={event => onCurrencyChange(source.id, event.target.value)}
+            className="ml-2 text-xs text-gray-600 bg-transparent border border-gray-200 rounded"
+            title={t('sources.currency')}
+          >
+            {CURRENCIES.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+          {source.report.rejected.length > 0 && (
+            <button
+              onClick={() => onShowReport(source.id)}
+              className="ml-2 text-xs text-red-600 hover:text-red-800 underline"
+            >
+              {t('sources.rejected', { count: source.report.rejected.length })}
+            </button>
+          )}
+          <button
+            onClick={() => onRemove(source.id)}
+            className="ml-3 text-gray-400 hover:text-red-500 transition-colors"
+            title={t('sources.remove')}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,103 @@
+import { useMemo, useRef, useState } from 'react';
+import { CartesianGrid, ComposedChart, Bar, Line, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CalendarDays } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { DailySales } from '../lib/analytics';
+import { TOOLTIP_STYLE } from '../lib/chartStyle';
+import { buildTimeSeries, DEFAULT_MOVING_AVERAGE, type Granularity } from '../lib/timeSeries';
+import ExportMenu from './ExportMenu';
+
+interface TimeSeriesPanelProps {
+  days: DailySales[];
+  currency: string;
+}
+
+const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+const TimeSeriesPanel = ({ days, currency }: TimeSeriesPanelProps) => {
+  const { t, formatDate, formatMonth } = useI18n();
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [averageWindow, setAverageWindow] = useState(DEFAULT_MOVING_AVERAGE.day);
+
+  const series = useMemo(
+    () =>
+      buildTimeSeries(days, granularity, averageWindow).map(point => ({
+        ...point,
+        label: granularity === 'month' ? formatMonth(point.period.slice(0, 7)) : formatDate(point.period)
+      })),
+    [days, granularity, averageWindow, formatDate, formatMonth]
+  );
+
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const changeGranularity = (next: Granularity) => {
+    setGranularity(next);
+    setAverageWindow(DEFAULT_MOVING_AVERAGE[next]);
+  };
+
+  return (
+    <div ref={chartRef} data-report-section className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-sky-500 to-blue-500 rounded-lg flex items-center justify-center mr-3">
+            <CalendarDays className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('timeSeries.title')}</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="inline-flex bg-white rounded-lg border border-gray-200 p-1">
+            {GRANULARITIES.map(value => (
+              <button
+                key={value}
+                onClick={() => changeGranularity(value)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  granularity === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {t(`timeSeries.${value}`)}
+              </button>
+            ))}
+          </div>
+          <label className="text-sm text-gray-600 flex items-center gap-2">
+            {t('timeSeries.movingAverage')}
+            <input
+              type="number"
+              min={1}
+              max={90}
+              value={averageWindow}
+              onChange={event => setAverageWindow(Math.max(1, Number(event.target.value) || 1))}
+              className="w-16 px-2 py-1 border border-gray-200 rounded-lg"
+            />
+          </label>
+          <ExportMenu
+            chartRef={chartRef}
+            rows={series.map(({ label, revenue, orders, revenueAverage, ordersAverage }) => ({
+              period: label,
+              revenue: Number(revenue.toFixed(2)),
+              orders,
+              revenue_average: Number(revenueAverage.toFixed(2)),
+              orders_average: Number(ordersAverage.toFixed(2))
+            }))}
+            fileName={t(`timeSeries.fileName.${granularity}`)}
+          />
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={320}>
+        <ComposedChart data={series}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis dataKey="label" stroke="#6b7280" fontSize={12} />
+          <YAxis yAxisId="left" stroke="#6b7280" fontSize={12} />
+          <YAxis yAxisId="right" orientation="right" stroke="#6b7280" fontSize={12} />
+          <Tooltip contentStyle={TOOLTIP_STYLE} />
+          <Legend />
+          <Bar yAxisId="left" dataKey="revenue" fill="#10B981" name={t('timeSeries.revenue', { currency })} radius={[4, 4, 0, 0]} />
+          <Line yAxisId="left" type="monotone" dataKey="revenueAverage" stroke="#047857" strokeWidth={2} dot={false} name={t('timeSeries.revenueAverage', { currency })} />
+          <Line yAxisId="right" type="monotone" dataKey="orders" stroke="#3B82F6" strokeWidth={2} dot={false} name={t('timeSeries.orders')} />
+          <Line yAxisId="right" type="monotone" dataKey="ordersAverage" stroke="#1D4ED8" strokeWidth={2} strokeDasharray="5 5" dot={false} name={t('timeSeries.ordersAverage')} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default TimeSeriesPanel;
@@ -0,0 +1,214 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, ListFilter } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import type { MessageKey } from '../i18n';
+import {
+  DEFAULT_TRANSACTION_SORT,
+  distinctValues,
+  EMPTY_TRANSACTION_FILTERS,
+  filterTransactions,
+  sortTransactions,
+  TRANSACTION_COLUMNS,
+  transactionsToRows,
+  type TransactionColumn,
+  type TransactionFilters,
+  type TransactionSort
+} from '../lib/transactions';
+import type { DataSource, SalesRecord } from '../types';
+import ExportMenu from './ExportMenu';
+
+interface TransactionExplorerProps {
+  data: SalesRecord[];
+  sources: DataSource[];
+  currency: string;
+}
+
+const COLUMN_LABELS: Record<TransactionColumn, MessageKey> = {
+  datetime: 'transaction.datetime',
+  coffee_name: 'transaction.product',
+  money: 'transaction.amount',
+  cash_type: 'transaction.payment',
+  card: 'transaction.card',
+  source: 'transaction.source'
+};
+
+// Only the rows in view (plus a margin) are rendered, so the table stays responsive at 100k+ rows.
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 10;
+
+const parseAmount = (value: string) => (value === '' ? null : Number(value));
+
+const TransactionExplorer = ({ data, sources, currency }: TransactionExplorerProps) => {
+  const { t, formatMoney, formatDateTime } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [filters, setFilters] = useState<TransactionFilters>(EMPTY_TRANSACTION_FILTERS);
+  const [sort, setSort] = useState<TransactionSort>(DEFAULT_TRANSACTION_SORT);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Typing stays responsive while a large table is filtered in the background.
+  const deferredFilters = useDeferredValue(filters);
+
+  const sourceName = useMemo(() => {
+    const names = Object.fromEntries(sources.map(source => [source.id, source.name]));
+    return (sourceId: string) => names[sourceId] ?? sourceId;
+  }, [sources]);
+
+  const products = useMemo(() => (open ? distinctValues(data, 'coffee_name') : []), [open, data]);
+  const payments = useMemo(() => (open ? distinctValues(data, 'cash_type') : []), [open, data]);
+  const rows = useMemo(
+    () => (open ? sortTransactions(filterTransactions(data, deferredFilters, sourceName), sort, sourceName) : []),
+    [open, data, deferredFilters, sort, sourceName]
+  );
+  const exportRows = useMemo(() => transactionsToRows(rows, sourceName), [rows, sourceName]);
+
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  }, [deferredFilters, sort]);
+
+  const updateFilters = (changes: Partial<TransactionFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const changeSort = (column: TransactionColumn) => {
+    setSort(prev => ({
+      column,
+      direction: prev.column === column && prev.direction === 'asc' ? 'desc' : 'asc'
+    }));
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const inputClassName = 'px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8">
+      <button onClick={() => setOpen(prev => !prev)} className="w-full flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-slate-500 to-gray-600 rounded-lg flex items-center justify-center mr-3">
+            <ListFilter className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('explorer.title')}</h3>
+          <span className="ml-3 text-sm text-gray-500">
+            {open
+              ? t('explorer.shown', { shown: rows.length, count: data.length })
+              : t('explorer.count', { count: data.length })}
+          </span>
+        </div>
+        {open ? <ChevronUp className="h-5 w-5 text-gray-500" /> : <ChevronDown className="h-5 w-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <>
+          <div className="mt-6 flex flex-wrap items-center gap-3">
+            <input
+              value={filters.search}
+              onChange={event => updateFilters({ search: event.target.value })}
+              placeholder={t('explorer.search')}
+              className={`${inputClassName} w-64`}
+            />
+            <select value={filters.product} onChange={event => updateFilters({ product: event.target.value })} className={inputClassName}>
+              <option value="">{t('explorer.allProducts')}</option>
+              {products.map(product => (
+                <option key={product} value={product}>{product}</option>
+              ))}
+            </select>
+            <select value={filters.payment} onChange={event => updateFilters({ payment: event.target.value })} className={inputClassName}>
+              <option value="">{t('explorer.allPayments')}</option>
+              {payments.map(payment => (
+                <option key={payment} value={payment}>{payment}</option>
+              ))}
+            </select>
+            <input
+              value={filters.card}
+              onChange={event => updateFilters({ card: event.target.value })}
+              placeholder={t('explorer.card')}
+              className={`${inputClassName} w-40`}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={filters.minAmount ?? ''}
+              onChange={event => updateFilters({ minAmount: parseAmount(event.target.value) })}
+              placeholder={t('explorer.minAmount')}
+              className={`${inputClassName} w-28`}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={filters.maxAmount ?? ''}
+              onChange={event => updateFilters({ maxAmount: parseAmount(event.target.value) })}
+              placeholder={t('explorer.maxAmount')}
+              className={`${inputClassName} w-28`}
+            />
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={event => updateFilters({ from: event.target.value || null })}
+              title={t('explorer.from')}
+              className={inputClassName}
+            />
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={event => updateFilters({ to: event.target.value || null })}
+              title={t('explorer.to')}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => setFilters(EMPTY_TRANSACTION_FILTERS)}
+              className="text-sm text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              {t('explorer.clear')}
+            </button>
+            <ExportMenu rows={exportRows} fileName={t('explorer.fileName')} />
+          </div>
+
+          <div
+            ref={viewportRef}
+            onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+            className="mt-4 overflow-auto border border-gray-100 rounded-xl"
+            style={{ height: VIEWPORT_HEIGHT }}
+          >
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  {TRANSACTION_COLUMNS.map(column => (
+                    <th key={column} className={`px-3 py-2 font-medium ${column === 'money' ? 'text-right' : 'text-left'}`}>
+                      <button onClick={() => changeSort(column)} className="inline-flex items-center hover:text-gray-900">
+                        {t(COLUMN_LABELS[column])}
+                        {sort.column === column && (
+                          sort.direction === 'asc' ? <ArrowUp className="h-3 w-3 ml-1" /> : <ArrowDown className="h-3 w-3 ml-1" />
+                        )}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr style={{ height: first * ROW_HEIGHT }} />
+                {rows.slice(first, last).map((record, index) => (
+                  <tr key={first + index} className="border-t border-gray-100" style={{ height: ROW_HEIGHT }}>
+                    <td className="px-3 text-gray-800 whitespace-nowrap">{formatDateTime(record.datetime)}</td>
+                    <td className="px-3 text-gray-800 whitespace-nowrap">{record.coffee_name}</td>
+                    <td className="px-3 text-right text-gray-800 whitespace-nowrap">{formatMoney(record.money, currency)}</td>
+                    <td className="px-3 text-gray-600 whitespace-nowrap">{record.cash_type}</td>
+                    <td className="px-3 text-gray-600 whitespace-nowrap">{record.card}</td>
+                    <td className="px-3 text-gray-600 whitespace-nowrap">{sourceName(record.source)}</td>
+                  </tr>
+                ))}
+                <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} />
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="p-4 text-sm text-gray-600">{t('explorer.empty')}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransactionExplorer;
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Download, LayoutGrid, Pencil, RotateCcw, Save, Trash2, Upload } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { downloadFile } from '../lib/download';
+import {
+  loadViews,
+  mergeViews,
+  parseViewsJson,
+  saveViews,
+  viewsToJson,
+  ViewsFileError,
+  type DashboardLayout,
+  type DashboardView,
+  type ViewFilters
+} from '../lib/layout';
+
+interface ViewManagerProps {
+  layout: DashboardLayout;
+  filters: ViewFilters;
+  editing: boolean;
+  onToggleEditing: () => void;
+  onResetLayout: () => void;
+  onApply: (view: DashboardView) => void;
+}
+
+const ViewManager = ({ layout, filters, editing, onToggleEditing, onResetLayout, onApply }: ViewManagerProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [views, setViews] = useState(loadViews);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const changeViews = (next: DashboardView[]) => {
+    saveViews(next);
+    setViews(next);
+  };
+
+  // Saving under an existing name updates that view.
+  const saveCurrent = () => {
+    if (!name.trim()) return;
+    changeViews(mergeViews(views, [{ id: crypto.randomUUID(), name: name.trim(), layout, filters }]));
+    setName('');
+    setMessage(null);
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseViewsJson(await file.text());
+      changeViews(mergeViews(views, imported));
+      setMessage({ text: t('views.imported', { count: imported.length }), error: false });
+    } catch (err) {
+      const reason = err instanceof ViewsFileError ? t('views.invalidFile') : t('common.unknownError');
+      setMessage({ text: t('views.importFailed', { message: reason }), error: true });
+    }
+  };
+
+  const buttonClassName = 'inline-flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors';
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-white/20 mb-8" data-report-ignore>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <button onClick={() => setOpen(prev => !prev)} className="flex items-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-lg flex items-center justify-center mr-3">
+            <LayoutGrid className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-xl font-semibold text-gray-800">{t('views.title')}</h3>
+          <span className="ml-3 text-sm text-gray-500">{t('views.count', { count: views.length })}</span>
+          {open ? <ChevronUp className="ml-2 h-5 w-5 text-gray-500" /> : <ChevronDown className="ml-2 h-5 w-5 text-gray-500" />}
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onToggleEditing}
+            className={editing ? 'inline-flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors' : buttonClassName}
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            {editing ? t('layout.done') : t('layout.edit')}
+          </button>
+          <button onClick={onResetLayout} className={buttonClassName}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {t('layout.reset')}
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="mt-6">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <input
+              value={name}
+              onChange={event => setName(event.target.value)}
+              onKeyDown={event => event.key === 'Enter' && saveCurrent()}
+              placeholder={t('views.namePlaceholder')}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm w-64"
+            />
+            <button
+              onClick={saveCurrent}
+              disabled={!name.trim()}
+              className="inline-flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {t('views.save')}
+            </button>
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => downloadFile(viewsToJson(views), `${t('views.fileName')}.json`, 'application/json')}
+                disabled={views.length === 0}
+                className={`${buttonClassName} disabled:opacity-50`}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {t('views.export')}
+              </button>
+              <label className={`${buttonClassName} cursor-pointer`}>
+                <input type="file" accept=".json,application/json" onChange={importFile} className="hidden" />
+                <Upload className="h-4 w-4 mr-2" />
+                {t('views.import')}
+              </label>
+            </div>
+          </div>
+
+          {message && (
+            <div className={`mb-4 p-3 rounded-xl text-sm ${message.error ? 'bg-red-50 border border-red-200 text-red-700' : 'bg-green-50 border border-green-200 text-green-700'}`}>
+              {message.text}
+            </div>
+          )}
+
+          {views.length === 0 ? (
+            <p className="text-gray-600 text-sm">{t('views.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+              {views.map(view => (
+                <li key={view.id} className="flex items-center gap-3 px-4 py-3">
+                  <span className="font-medium text-gray-800">{view.name}</span>
+                  <span className="text-sm text-gray-500">{t('views.widgets', { count: view.layout.length })}</span>
+                  <div className="ml-auto flex items-center gap-2">
+                    <button onClick={() => onApply(view)} className="text-sm text-blue-600 hover:text-blue-800">
+                      {t('views.apply')}
+                    </button>
+                    <button
+                      onClick={() => changeViews(views.filter(other => other.id !== view.id))}
+                      className="text-gray-400 hover:text-red-500"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewManager;
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DailySales, SalesAnalytics } from '../lib/analytics';
+import type { AlertRule, Insight } from '../lib/anomalies';
+import type { BasketAnalysis } from '../lib/baskets';
+import type { ProductCatalogue, ProductCategory, ProductGrouping } from '../lib/catalogue';
+import type { CrossFilter } from '../lib/crossFilter';
+import type { Cohort, CustomerProfile } from '../lib/customers';
+import type { ResolvedDateRange } from '../lib/dateRange';
+import type { DemandForecast } from '../lib/forecast';
+import type { SalesRecord } from '../types';
+
+interface QueryRequest {
+  type: 'query';
+  id: number;
+  range: ResolvedDateRange;
+  comparisonRange: ResolvedDateRange | null;
+  crossFilter: CrossFilter;
+  catalogue: ProductCatalogue;
+  productGrouping: ProductGrouping;
+  // Translated category names, used as chart labels when grouping by category.
+  categoryLabels: Record<ProductCategory, string>;
+}
+
+interface BasketsRequest {
+  type: 'baskets';
+  id: number;
+  range: ResolvedDateRange;
+  crossFilter: CrossFilter;
+  catalogue: ProductCatalogue;
+  gapMinutes: number;
+}
+
+// Forecasts continue the chart selection's whole history; the range only decides the frequency buckets.
+interface ForecastRequest {
+  type: 'forecast';
+  id: number;
+  range: ResolvedDateRange;
+  crossFilter: CrossFilter;
+  catalogue: ProductCatalogue;
+  // Forecast horizon.
+  days: number;
+}
+
+// Insights look at the whole history, whatever the range and chart selection.
+interface InsightsRequest {
+  type: 'insights';
+  id: number;
+  catalogue: ProductCatalogue;
+  rules: AlertRule[];
+  // Currency of each source by source id, for the price checks.
+  currencies: Record<string, string>;
+}
+
+export type AnalyticsWorkerRequest =
+  // `sourceRecords` are the same records before currency conversion, or null when nothing was converted.
+  | { type: 'load'; records: SalesRecord[]; sourceRecords: SalesRecord[] | null }
+  | QueryRequest
+  | BasketsRequest
+  | ForecastRequest
+  | InsightsRequest;
+
+// What the panels draw, apart from the records themselves.
+interface PanelData {
+  analytics: SalesAnalytics | null;
+  comparisonAnalytics: SalesAnalytics | null;
+  days: DailySales[];
+  profiles: CustomerProfile[];
+  cohorts: Cohort[];
+}
+
+// Each response answers the request of the same type and id.
+export type AnalyticsWorkerResponse =
+  | (PanelData & {
+    type: 'query';
+    id: number;
+    // Positions in the loaded records within the range and the chart selection.
+    records: Uint32Array;
+  })
+  | { type: 'baskets'; id: number; baskets: BasketAnalysis }
+  | { type: 'forecast'; id: number; forecast: DemandForecast }
+  | { type: 'insights'; id: number; insights: Insight[] };
+
+interface UseAnalyticsOptions {
+  data: SalesRecord[];
+  // `data` before currency conversion.
+  sourceData: SalesRecord[];
+  currencies: Record<string, string>;
+  range: ResolvedDateRange;
+  comparisonRange: ResolvedDateRange | null;
+  crossFilter: CrossFilter;
+  catalogue: ProductCatalogue;
+  productGrouping: ProductGrouping;
+  categoryLabels: Record<ProductCategory, string>;
+  basketGap: number;
+  forecastDays: number;
+  alertRules: AlertRule[];
+}
+
+const NO_RECORDS: SalesRecord[] = [];
+const NO_INSIGHTS: Insight[] = [];
+
+interface AnalyticsResult extends PanelData {
+  data: SalesRecord[];
+}
+
+// Computes the dashboard analytics, daily trend, customer profiles, baskets, forecasts and
+// insights in a worker. The records are sent once and bucketed by day there, so a new date range,
+// comparison, chart selection or grouping only merges day buckets. The worker also picks the
+// records the range and selection keep, for panels that list them. Each kind of request is
+// answered separately, so changing an alert rule does not recompute the charts; results of
+// superseded requests are dropped and the previous result stays on screen while `pending`.
+export const useAnalytics = ({
+  data,
+  sourceData,
+  currencies,
+  range,
+  comparisonRange,
+  crossFilter,
+  catalogue,
+  productGrouping,
+  categoryLabels,
+  basketGap,
+  forecastDays,
+  alertRules
+}: UseAnalyticsOptions) => {
+  const [result, setResult] = useState<AnalyticsResult | null>(null);
+  const [baskets, setBaskets] = useState<BasketAnalysis | null>(null);
+  const [forecast, setForecast] = useState<DemandForecast | null>(null);
+  const [insights, setInsights] = useState<Insight[] | null>(null);
+  const [pending, setPending] = useState(true);
+  const worker = useRef<Worker | null>(null);
+  // Id of the latest request of each type; answers to older ones are stale.
+  const latest = useRef<Record<AnalyticsWorkerResponse['type'], number>>({
+    query: 0,
+    baskets: 0,
+    forecast: 0,
+    insights: 0
+  });
+  // The records the latest query ran on, which the returned positions refer to.
+  const queriedData = useRef(data);
+
+  useEffect(() => {
+    const current = new Worker(new URL('../workers/analytics.worker.ts', import.meta.url), { type: 'module' });
+    current.onmessage = ({ data: response }: MessageEvent<AnalyticsWorkerResponse>) => {
+      if (response.id !== latest.current[response.type]) return;
+      if (response.type === 'baskets') {
+        setBaskets(response.baskets);
+        return;
+      }
+      if (response.type === 'forecast') {
+        setForecast(response.forecast);
+        return;
+      }
+      if (response.type === 'insights') {
+        setInsights(response.insights);
+        return;
+      }
+      const records = queriedData.current;
+      const { analytics, comparisonAnalytics, days, profiles, cohorts } = response;
+      setResult({
+        analytics,
+        comparisonAnalytics,
+        days,
+        profiles,
+        cohorts,
+        data: Array.from(response.records, position => records[position])
+      });
+      setPending(false);
+    };
+    worker.current = current;
+    return () => current.terminate();
+  }, []);
+
+  useEffect(() => {
+    worker.current?.postMessage({
+      type: 'load',
+      records: data,
+      sourceRecords: sourceData === data ? null : sourceData
+    } satisfies AnalyticsWorkerRequest);
+  }, [data, sourceData]);
+
+  useEffect(() => {
+    latest.current.query += 1;
+    queriedData.current = data;
+    setPending(true);
+    worker.current?.postMessage({
+      type: 'query',
+      id: latest.current.query,
+      range,
+      comparisonRange,
+      crossFilter,
+      catalogue,
+      productGrouping,
+      categoryLabels
+    } satisfies AnalyticsWorkerRequest);
+  }, [data, range, comparisonRange, crossFilter, catalogue, productGrouping, categoryLabels]);
+
+  useEffect(() => {
+    latest.current.baskets += 1;
+    worker.current?.postMessage({
+      type: 'baskets',
+      id: latest.current.baskets,
+      range,
+      crossFilter,
+      catalogue,
+      gapMinutes: basketGap
+    } satisfies AnalyticsWorkerRequest);
+  }, [data, range, crossFilter, catalogue, basketGap]);
+
+  useEffect(() => {
+    latest.current.forecast += 1;
+    worker.current?.postMessage({
+      type: 'forecast',
+      id: latest.current.forecast,
+      range,
+      crossFilter,
+      catalogue,
+      days: forecastDays
+    } satisfies AnalyticsWorkerRequest);
+  }, [data, range, crossFilter, catalogue, forecastDays]);
+
+  useEffect(() => {
+    latest.current.insights += 1;
+    worker.current?.postMessage({
+      type: 'insights',
+      id: latest.current.insights,
+      catalogue,
+      rules: alertRules,
+      currencies
+    } satisfies AnalyticsWorkerRequest);
+  }, [data, sourceData, catalogue, alertRules, currencies]);
+
+  return {
+    analytics: result?.analytics ?? null,
+    comparisonAnalytics: result?.comparisonAnalytics ?? null,
+    days: result?.days ?? [],
+    profiles: result?.profiles ?? [],
+    cohorts: result?.cohorts ?? [],
+    data: result?.data ?? NO_RECORDS,
+    // Null until the first result arrives.
+    baskets,
+    forecast,
+    insights: insights ?? NO_INSIGHTS,
+    pending
+  };
+};
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { crossFilterFromSearch, crossFilterToSearch, type CrossFilter } from '../lib/crossFilter';
+
+// Chart selections mirrored in the URL. The history entry is replaced rather than pushed,
+// so clicking through charts does not fill the back button; navigating between entries
+// (e.g. opening a shared link in the same tab) still restores the filter.
+export const useCrossFilter = () => {
+  const [filter, setFilter] = useState<CrossFilter>(() => crossFilterFromSearch(window.location.search));
+
+  useEffect(() => {
+    const search = crossFilterToSearch(filter, window.location.search);
+    if (search !== window.location.search) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    const restore = () => setFilter(crossFilterFromSearch(window.location.search));
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  return [filter, setFilter] as const;
+};
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { mergeSources } from '../lib/sources';
+import {
+  deleteDataset,
+  listDatasets,
+  loadDashboardState,
+  loadDatasetSources,
+  renameDataset,
+  saveDashboardState,
+  saveDataset,
+  type DashboardState,
+  type DatasetMeta
+} from '../lib/storage';
+import type { DataSource } from '../types';
+
+export type DashboardFilters = Omit<DashboardState, 'datasetId'>;
+
+interface UseDatasetLibraryOptions {
+  sources: DataSource[];
+  filters: DashboardFilters;
+  onRestore: (sources: DataSource[], filters: DashboardFilters | null) => void;
+}
+
+const defaultDatasetName = (sources: DataSource[]) => sources.map(source => source.name).join(' + ');
+
+// Keeps the current sources and filters mirrored in IndexedDB and restores the last-used
+// dataset on start-up. Nothing is written until that restore has finished, so an empty
+// initial render cannot overwrite what was stored.
+export const useDatasetLibrary = ({ sources, filters, onRestore }: UseDatasetLibraryOptions) => {
+  const [datasets, setDatasets] = useState<DatasetMeta[]>([]);
+  const [datasetId, setDatasetId] = useState<string | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  // Kept as thrown, so the page can describe it in the current language.
+  const [storageError, setStorageError] = useState<unknown>(null);
+  const onRestoreRef = useRef(onRestore);
+  // Read by the save effect, which should only run when the data itself changes.
+  const datasetsRef = useRef(datasets);
+  const datasetIdRef = useRef(datasetId);
+  // The sources last written or read back, so restoring or opening a dataset does not save it again.
+  const storedSourcesRef = useRef<DataSource[] | null>(null);
+
+  // Layout effects run before the effects below, so those always read this render's values.
+  useLayoutEffect(() => {
+    onRestoreRef.current = onRestore;
+    datasetsRef.current = datasets;
+    datasetIdRef.current = datasetId;
+  });
+
+  const reportError = (err: unknown) => {
+    setStorageError(err);
+  };
+
+  const refresh = useCallback(() => listDatasets().then(setDatasets).catch(reportError), []);
+
+  useEffect(() => {
+    const restore = async () => {
+      const state = await loadDashboardState();
+      setDatasets(await listDatasets());
+      const stored = state?.datasetId ? await loadDatasetSources(state.datasetId) : null;
+      if (state && stored) {
+        storedSourcesRef.current = stored;
+        setDatasetId(state.datasetId);
+        onRestoreRef.current(stored, {
+          dateRange: state.dateRange,
+          comparison: state.comparison,
+          productGrouping: state.productGrouping
+        });
+      } else if (state) {
+        onRestoreRef.current([], state);
+      }
+    };
+    restore()
+      .catch(reportError)
+      .finally(() => setHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    const currentId = datasetIdRef.current;
+    if (!hydrated || sources === storedSourcesRef.current || (!currentId && sources.length === 0)) return;
+    storedSourcesRef.current = sources;
+
+    const id = currentId ?? crypto.randomUUID();
+    const existing = datasetsRef.current.find(dataset => dataset.id === id);
+    const now = new Date().toISOString();
+    const meta: DatasetMeta = {
+      id,
+      name: existing?.name ?? defaultDatasetName(sources),
+      importedAt: existing?.importedAt ?? now,
+      updatedAt: now,
+      fileNames: sources.map(source => source.name),
+      rowCount: mergeSources(sources.map(source => ({ ...source, enabled: true }))).records.length
+    };
+    if (!currentId) setDatasetId(id);
+    saveDataset(meta, sources).then(refresh).catch(reportError);
+  }, [hydrated, sources, refresh]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveDashboardState({ datasetId, ...filters }).catch(reportError);
+  }, [hydrated, datasetId, filters]);
+
+  const openDataset = async (id: string) => {
+    try {
+      const stored = await loadDatasetSources(id);
+      if (!stored) return;
+      storedSourcesRef.current = stored;
+      setDatasetId(id);
+      onRestoreRef.current(stored, null);
+    } catch (err) {
+      reportError(err);
+    }
+  };
+
+  const startNewDataset = () => {
+    setDatasetId(null);
+    onRestoreRef.current([], null);
+  };
+
+  const rename = (id: string, name: string) => {
+    renameDataset(id, name).then(refresh).catch(reportError);
+  };
+
+  const remove = (id: string) => {
+    if (id === datasetId) startNewDataset();
+    deleteDataset(id).then(refresh).catch(reportError);
+  };
+
+  return {
+    datasets,
+    datasetId,
+    hydrated,
+    storageError,
+    openDataset,
+    startNewDataset,
+    renameDataset: rename,
+    deleteDataset: remove
+  };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Follows `value` once it has stayed the same for `delay` milliseconds, e.g. while a number is being typed.
+export const useDebouncedValue = <T>(value: T, delay: number) => {
+  const [settled, setSettled] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return settled;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { createI18n, I18nContext } from './context';
+import { loadLanguage, saveLanguage, type Language } from './index';
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+const I18nProvider = ({ children }: I18nProviderProps) => {
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const i18n = useMemo(
+    () => createI18n(language, next => {
+      saveLanguage(next);
+      setLanguage(next);
+    }),
+    [language]
+  );
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,52 @@
+import { createContext, useContext } from 'react';
+import { formatMoney } from '../lib/currency';
+import { localeOf, translate, type Language, type MessageKey, type TranslateParams } from './index';
+
+export interface I18n {
+  language: Language;
+  locale: string;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatMoney: (value: number, currency: string) => string;
+  // 'YYYY-MM-DD' calendar dates.
+  formatDate: (date: string) => string;
+  // 'YYYY-MM' months.
+  formatMonth: (month: string) => string;
+  // Transaction timestamps are wall-clock times and are shown as such; ISO timestamps in local time.
+  formatDateTime: (value: string) => string;
+  // 0 = Monday.
+  weekdayName: (weekday: number, width?: 'long' | 'short') => string;
+}
+
+const WALL_CLOCK = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}/;
+
+export const createI18n = (language: Language, setLanguage: (language: Language) => void): I18n => {
+  const locale = localeOf(language);
+  return {
+    language,
+    locale,
+    setLanguage,
+    t: (key, params) => translate(language, key, params),
+    formatNumber: (value, options) => new Intl.NumberFormat(locale, options).format(value),
+    formatMoney: (value, currency) => formatMoney(value, currency, locale),
+    formatDate: date =>
+      new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, { dateStyle: 'medium', timeZone: 'UTC' }),
+    formatMonth: month =>
+      new Date(`${month}-01T00:00:00Z`).toLocaleDateString(locale, { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+    formatDateTime: value =>
+      WALL_CLOCK.test(value)
+        ? new Date(`${value.slice(0, 19).replace(' ', 'T')}Z`).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'medium', timeZone: 'UTC' })
+        : new Date(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    weekdayName: (weekday, width = 'long') =>
+      new Date(Date.UTC(2024, 0, 1 + weekday)).toLocaleDateString(locale, { weekday: width, timeZone: 'UTC' })
+  };
+};
+
+export const I18nContext = createContext<I18n | null>(null);
+
+export const useI18n = () => {
+  const i18n = useContext(I18nContext);
+  if (!i18n) throw new Error('useI18n must be used inside I18nProvider');
+  return i18n;
+};
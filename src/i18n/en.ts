@@ -0,0 +1,429 @@
+import type { Catalogue } from './index';
+
+const en: Catalogue = {
+  'app.title': 'Sales Analytics',
+  'app.language': 'Language',
+  'app.processing': 'Processing...',
+  'app.recomputing': 'Recalculating…',
+  'app.noData': 'No data to show. Enable at least one data source or change the date range.',
+  'app.groupBy': 'Group by',
+  'app.grouping.product': 'Product',
+  'app.grouping.category': 'Category',
+
+  'upload.title': 'Upload Your Sales Data',
+  'upload.description': 'Upload one or more CSV files to start analysing sales correlations and insights',
+  'upload.choose': 'Choose CSV Files',
+  'upload.addFiles': 'Add Files',
+  'upload.newDataset': 'New Dataset',
+
+  'report.button': 'PDF Report',
+  'report.generating': 'Generating...',
+  'report.failed': 'Could not generate the report: {message}',
+  'report.dataset': 'Dataset: {name}',
+  'report.sources': 'Sources: {names}',
+  'report.dateRange': 'Date range: {range}',
+  'report.comparison': 'Comparison: {range}',
+  'report.noComparison': 'none',
+  'report.grouping': 'Grouping: {grouping}',
+  'report.groupingProduct': 'by product',
+  'report.groupingCategory': 'by category',
+  'report.currency': 'Currency: {currency}',
+  'report.generatedAt': 'Generated: {date}',
+  'report.fileName': 'sales_report',
+
+  'kpi.revenue': 'Total Revenue',
+  'kpi.orders': 'Orders',
+  'kpi.avgOrderValue': 'Average Order Value',
+  'kpi.uniqueCustomers': 'Unique Customers',
+
+  'chart.orders': 'Orders',
+  'chart.ordersComparison': 'Orders (comparison)',
+  'chart.revenue': 'Revenue ({currency})',
+  'chart.revenueComparison': 'Revenue ({currency}, comparison)',
+  'chart.volume': 'Volume (Orders)',
+  'chart.avgPrice': 'Avg Price ({currency})',
+  'chart.customers': 'Number of Customers',
+  'chart.revenueByProduct': 'Revenue by Product',
+  'chart.revenueByCategory': 'Revenue by Category',
+  'chart.hourly': 'Orders and Revenue by Hour of Purchase',
+  'chart.payments': 'Payment Methods',
+  'chart.frequency': 'Visit Frequency',
+  'chart.priceVolume': 'Price vs Order Volume',
+  'chart.products.fileName': 'revenue_by_product',
+  'chart.hourly.fileName': 'orders_by_hour',
+  'chart.payments.fileName': 'payment_methods',
+  'chart.frequency.fileName': 'visit_frequency',
+  'chart.priceVolume.fileName': 'price_and_volume',
+
+  'frequency.1': '1 order',
+  'frequency.2-3': '2–3 orders',
+  'frequency.4-5': '4–5 orders',
+  'frequency.6+': '6+ orders',
+
+  'insights.title': 'Key Insights',
+  'insights.topProduct': 'Top Product',
+  'insights.topCategory': 'Top Category',
+  'insights.topProductText': 'generates the highest sales, {revenue} in total.',
+  'insights.peakHour': 'Peak Hours',
+  'insights.peakHourText': {
+    one: 'is the busiest hour, with {count} order.',
+    other: 'is the busiest hour, with {count} orders.'
+  },
+  'insights.customers': 'Customer Base',
+  'insights.customersText': {
+    one: 'unique customer',
+    other: 'unique customers'
+  },
+  'insights.customerOrders': {
+    one: 'with {count} order',
+    other: 'with {count} orders'
+  },
+  'insights.ordersPerCustomer': '({value} orders per customer)',
+  'insights.typicalOrder': 'Typical Transaction',
+  'insights.typicalOrderText': 'per order on average',
+
+  'anomalies.title': 'Detected Anomalies',
+  'anomalies.subtitle': 'Checked on every import, most severe first',
+  'anomalies.rules': 'Alert rules ({count})',
+  'anomalies.noRules': 'No rules yet. Add one, e.g. "Daily revenue below 500".',
+  'anomalies.addRule': 'Add rule',
+  'anomalies.metric.dailyRevenue': 'Daily revenue',
+  'anomalies.metric.dailyOrders': 'Daily orders',
+  'anomalies.metric.cashShare': 'Cash share',
+  'anomalies.operator.below': 'below',
+  'anomalies.operator.above': 'above',
+  'anomalies.ruleText': '{metric} {operator} {threshold}',
+  'anomalies.kind.all': 'All',
+  'anomalies.kind.rule': 'Rules',
+  'anomalies.kind.lowRevenue': 'Low revenue',
+  'anomalies.kind.priceChange': 'Price change',
+  'anomalies.kind.stoppedSelling': 'Stopped selling',
+  'anomalies.kind.paymentShift': 'Payments',
+  'anomalies.rule': 'Rule "{rule}" – value {value}.',
+  'anomalies.lowRevenue': 'Revenue of {revenue} is {drop}% below the usual for this weekday ({expected}).',
+  'anomalies.priceChange': '{product}: new price {price} (previously {previous}).',
+  'anomalies.stoppedSelling': {
+    one: '{product}: no sales for {count} day.',
+    other: '{product}: no sales for {count} days.'
+  },
+  'anomalies.paymentShift': 'Cash share this week was {share}% against {expected}% over the whole period.',
+  'anomalies.show': 'Show data',
+  'anomalies.empty': 'No anomalies found.',
+  'anomalies.showAll': 'Showing {shown} of {count} – show all',
+  'anomalies.showFewer': 'Show fewer',
+  'anomalies.fileName': 'anomalies',
+
+  'widgets.kpis': 'Key metrics',
+  'chartType.bar': 'Bar chart',
+  'chartType.line': 'Line chart',
+  'chartType.pie': 'Pie chart',
+  'chartType.table': 'Table',
+  'layout.edit': 'Edit layout',
+  'layout.done': 'Done editing',
+  'layout.reset': 'Default layout',
+  'layout.width': 'Width',
+  'layout.moveUp': 'Move earlier',
+  'layout.moveDown': 'Move later',
+  'layout.remove': 'Remove from dashboard',
+  'layout.add': 'Add widget:',
+  'layout.allShown': 'All widgets are already on the dashboard.',
+  'layout.empty': 'The dashboard is empty. Add widgets while editing the layout.',
+  'views.title': 'Views',
+  'views.count': '{count} saved',
+  'views.namePlaceholder': 'View name, e.g. owner',
+  'views.save': 'Save current view',
+  'views.apply': 'Apply',
+  'views.widgets': {
+    one: '{count} widget',
+    other: '{count} widgets'
+  },
+  'views.empty': 'No saved views yet. A view stores the dashboard layout together with the filters.',
+  'views.export': 'Export JSON',
+  'views.import': 'Import JSON',
+  'views.imported': {
+    one: 'Imported {count} view.',
+    other: 'Imported {count} views.'
+  },
+  'views.importFailed': 'Could not import the views: {message}',
+  'views.invalidFile': 'this is not a dashboard views file',
+  'views.fileName': 'dashboard_views',
+
+  'sources.records': {
+    one: '{count} record',
+    other: '{count} records'
+  },
+  'sources.duplicates': {
+    one: '{count} duplicate',
+    other: '{count} duplicates'
+  },
+  'sources.rejected': {
+    one: '{count} rejected',
+    other: '{count} rejected'
+  },
+  'sources.currency': 'Source currency',
+  'sources.remove': 'Remove source',
+
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.unknownError': 'An unknown error occurred',
+
+  'importReport.title': 'Import Report',
+  'importReport.accepted': 'Accepted: {count}',
+  'importReport.rejected': 'Rejected: {count}',
+  'importReport.total': 'Total: {count}',
+  'importReport.download': 'Download rejected rows',
+  'importReport.fileSuffix': 'rejected',
+
+  'rejection.missing_product': 'Missing product',
+  'rejection.non_positive_amount': 'Amount not positive or unreadable',
+  'rejection.invalid_date': 'Invalid date',
+  'rejection.date_mismatch': 'Date does not match the date and time',
+  'rejection.unknown_payment_type': 'Unknown payment type',
+
+  'wizard.title': 'Column Mapping',
+  'wizard.readError': 'Could not read the file: {message}',
+  'wizard.error.noHeader': 'the file has no header row',
+  'wizard.error.parseFailed': 'the CSV could not be parsed ({detail})',
+  'wizard.error.mappingFailed': 'the columns could not be mapped ({detail})',
+  'wizard.error.superseded': 'reading was restarted with other settings',
+  'wizard.error.cancelled': 'the import was cancelled',
+  'wizard.error.unexpectedResponse': 'the import worker sent an unexpected response',
+  'wizard.loading': 'Reading file… {loaded} / {total} MB',
+  'wizard.presets': 'Saved settings',
+  'wizard.delimiter': 'Column separator',
+  'wizard.decimalSeparator': 'Decimal separator',
+  'wizard.decimalPoint': 'Point (38.70)',
+  'wizard.decimalComma': 'Comma (38,70)',
+  'wizard.dateFormat': 'Date format',
+  'wizard.currency': 'Currency',
+  'wizard.noColumn': '— none —',
+  'wizard.preview': {
+    one: 'Preview: {accepted} of {count} row will be imported',
+    other: 'Preview: {accepted} of {count} rows will be imported'
+  },
+  'wizard.previewRejected': {
+    one: ', {count} rejected',
+    other: ', {count} rejected'
+  },
+  'wizard.presetName': 'Settings name, e.g. Till 1',
+  'wizard.skip': 'Skip file',
+  'wizard.import': 'Import',
+  'wizard.importing': 'Importing...',
+
+  'delimiter.auto': 'Automatic',
+  'delimiter.comma': 'Comma (,)',
+  'delimiter.semicolon': 'Semicolon (;)',
+  'delimiter.tab': 'Tab',
+  'delimiter.pipe': 'Pipe (|)',
+
+  'field.datetime': 'Date and time',
+  'field.date': 'Date',
+  'field.coffee_name': 'Product',
+  'field.money': 'Amount',
+  'field.cash_type': 'Payment type',
+  'field.card': 'Customer card',
+
+  'dateRange.all': 'All time',
+  'dateRange.last7': 'Last 7 days',
+  'dateRange.last30': 'Last 30 days',
+  'dateRange.last90': 'Last 90 days',
+  'dateRange.thisMonth': 'This month',
+  'dateRange.custom': 'Custom range',
+
+  'comparison.none': 'No comparison',
+  'comparison.previous': 'Previous period',
+  'comparison.lastYear': 'Year before',
+  'comparison.custom': 'Custom period',
+
+  'timeSeries.title': 'Revenue and Order Trend',
+  'timeSeries.day': 'Day',
+  'timeSeries.week': 'Week',
+  'timeSeries.month': 'Month',
+  'timeSeries.movingAverage': 'Moving average',
+  'timeSeries.revenue': 'Revenue ({currency})',
+  'timeSeries.revenueAverage': 'Revenue ({currency}, moving average)',
+  'timeSeries.orders': 'Orders',
+  'timeSeries.ordersAverage': 'Orders (moving average)',
+  'timeSeries.fileName.day': 'trend_daily',
+  'timeSeries.fileName.week': 'trend_weekly',
+  'timeSeries.fileName.month': 'trend_monthly',
+
+  'heatmap.title': 'Traffic by Weekday and Hour',
+  'heatmap.subtitle': 'Average per trading day',
+  'heatmap.orders': 'Orders',
+  'heatmap.revenue': 'Revenue',
+  'heatmap.fileName.orders': 'traffic_orders',
+  'heatmap.fileName.revenue': 'traffic_revenue',
+  'heatmap.transactions': {
+    one: '{count} transaction',
+    other: '{count} transactions'
+  },
+
+  'transaction.datetime': 'Date and time',
+  'transaction.product': 'Product',
+  'transaction.amount': 'Amount',
+  'transaction.payment': 'Payment',
+  'transaction.card': 'Card',
+  'transaction.source': 'Source',
+
+  'baskets.title': 'Baskets and Product Affinity',
+  'baskets.subtitle': 'Purchases with the same card, or at the same till for cash, form one basket',
+  'baskets.gap': 'Gap up to (min)',
+  'baskets.count': 'Baskets',
+  'baskets.avgSize': 'Average Basket Size',
+  'baskets.avgValue': 'Average Basket Value',
+  'baskets.multiItem': 'Baskets with 2+ Items',
+  'baskets.matrix': 'Co-purchase matrix',
+  'baskets.rules': 'Association rules',
+  'baskets.matrixHint': 'Baskets containing both products; the diagonal counts baskets containing the product.',
+  'baskets.antecedent': 'If the basket has',
+  'baskets.consequent': 'It also has',
+  'baskets.together': 'Baskets',
+  'baskets.support': 'Support',
+  'baskets.confidence': 'Confidence',
+  'baskets.lift': 'Lift',
+  'baskets.empty': 'No basket contains more than one product.',
+  'baskets.limited': 'Showing {shown} of {count} rules with the highest lift.',
+  'baskets.fileName': 'product_affinity',
+
+  'forecast.title': 'Demand Forecast',
+  'forecast.subtitle': 'Seasonal model by weekday and hour, fitted to the last {days} days',
+  'forecast.weeks': {
+    one: '{count} week',
+    other: '{count} weeks'
+  },
+  'forecast.revenue': 'Revenue',
+  'forecast.products': 'Products',
+  'forecast.hourly': 'Hours',
+  'forecast.backtest': 'Backtest',
+  'forecast.actual': 'Actual',
+  'forecast.forecast': 'Forecast',
+  'forecast.band': '95% interval',
+  'forecast.product': 'Product',
+  'forecast.units': 'Units',
+  'forecast.perDay': 'Per day',
+  'forecast.backtestError': 'Backtest error',
+  'forecast.day': 'Day',
+  'forecast.orders': 'Expected orders',
+  'forecast.mae': 'Mean absolute error: {value}',
+  'forecast.mape': 'Mean absolute percentage error: {value}%',
+  'forecast.backtestHint': 'Forecast made from the data before {date}, compared with actual sales.',
+  'forecast.notEnough': 'The forecast needs at least {days} days of history.',
+  'forecast.fileName': 'forecast',
+
+  'explorer.title': 'Transactions',
+  'explorer.count': {
+    one: '{count} transaction',
+    other: '{count} transactions'
+  },
+  'explorer.shown': {
+    one: '{shown} of {count} transaction',
+    other: '{shown} of {count} transactions'
+  },
+  'explorer.search': 'Search all columns...',
+  'explorer.allProducts': 'All products',
+  'explorer.allPayments': 'All payment types',
+  'explorer.card': 'Card contains...',
+  'explorer.minAmount': 'Amount from',
+  'explorer.maxAmount': 'Amount to',
+  'explorer.from': 'From',
+  'explorer.to': 'To',
+  'explorer.clear': 'Clear filters',
+  'explorer.empty': 'No transaction matches the filters.',
+  'explorer.fileName': 'transactions',
+
+  'customers.title': 'Customers',
+  'customers.subtitle': {
+    one: '{count} card customer, anonymous cash payments excluded',
+    other: '{count} card customers, anonymous cash payments excluded'
+  },
+  'customers.cohorts': 'Cohorts',
+  'customers.segments': 'RFM Segments',
+  'customers.customers': 'Customers',
+  'customers.empty': 'No transactions with a card identifier.',
+  'customers.cohort': 'Cohort',
+  'customers.segment': 'Segment',
+  'customers.revenue': 'Revenue',
+  'customers.search': 'Search card...',
+  'customers.card': 'Card',
+  'customers.lifetimeValue': 'Lifetime value',
+  'customers.orders': 'Orders',
+  'customers.favouriteProduct': 'Favourite product',
+  'customers.lastPurchase': 'Last visit',
+  'customers.limited': 'Showing {shown} of {count} customers with the highest value.',
+
+  'segment.champions': 'Champions',
+  'segment.loyal': 'Loyal',
+  'segment.potential': 'Potential loyalists',
+  'segment.new': 'New',
+  'segment.atRisk': 'At risk',
+  'segment.needAttention': 'Need attention',
+  'segment.lost': 'Lost',
+
+  'catalogue.title': 'Product Catalogue',
+  'catalogue.names': {
+    one: '{count} name in the data',
+    other: '{count} names in the data'
+  },
+  'catalogue.rawName': 'Name in the data',
+  'catalogue.orders': 'Orders',
+  'catalogue.product': 'Product',
+  'catalogue.category': 'Category',
+
+  'category.espresso': 'Espresso drinks',
+  'category.chocolate': 'Chocolate',
+  'category.tea': 'Tea',
+  'category.alcohol': 'With alcohol',
+  'category.other': 'Other',
+
+  'library.button': 'Library',
+  'library.title': 'Saved Datasets',
+  'library.subtitle': 'Stored in this browser only',
+  'library.empty': 'No saved datasets.',
+  'library.name': 'Name',
+  'library.files': 'Source files',
+  'library.importedAt': 'Imported',
+  'library.rows': 'Rows',
+  'library.rename': 'Rename',
+  'library.open': 'Open',
+  'library.confirmDelete': 'Delete dataset "{name}"?',
+  'library.storageError': 'Browser storage error: {message}',
+  'library.storageUnavailable': 'local storage is unavailable',
+
+  'currency.title': 'Currencies and Rates',
+  'currency.rates': {
+    one: '{count} rate',
+    other: '{count} rates'
+  },
+  'currency.reporting': 'Reporting currency',
+  'currency.noConversion': 'No conversion',
+  'currency.mixed': 'Sources use different currencies ({currencies}). Choose a reporting currency for correct totals.',
+  'currency.required': 'Sources use different currencies ({currencies}), so their amounts cannot be added up. Choose a reporting currency above to see the dashboard.',
+  'currency.missing': 'No rate to {currency} for: {missing}. These transactions are left out of the figures.',
+  'currency.missingCount': {
+    one: '{currency} ({count} transaction)',
+    other: '{currency} ({count} transactions)'
+  },
+  'currency.validFrom': 'Valid from',
+  'currency.unit': '1 unit of',
+  'currency.rate': 'Rate',
+  'currency.target': 'Target currency',
+  'currency.empty': 'No rates. A rate applies from its date until the next rate for the same currency pair.',
+  'currency.add': 'Add rate',
+
+  'export.failed': 'Export failed: {message}',
+
+  'crossFilter.title': 'Filters',
+  'crossFilter.product': 'Product',
+  'crossFilter.category': 'Category',
+  'crossFilter.payment': 'Payment',
+  'crossFilter.hour': 'Hour',
+  'crossFilter.frequency': 'Frequency',
+  'crossFilter.remove': 'Remove filter',
+  'crossFilter.clear': 'Clear filters',
+  'crossFilter.hint': 'Click a bar, slice or point on a chart to filter the whole dashboard.'
+};
+
+export default en;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import en from './en';
+import pl from './pl';
+import { translate, type MessageKey, type PluralMessage } from './index';
+
+describe('translate', () => {
+  it('picks the Polish plural form for the count', () => {
+    expect(translate('pl', 'sources.records', { count: 1 })).toBe('1 rekord');
+    expect(translate('pl', 'sources.records', { count: 3 })).toBe('3 rekordy');
+    expect(translate('pl', 'sources.records', { count: 5 })).toBe('5 rekordów');
+    expect(translate('pl', 'sources.records', { count: 22 })).toBe('22 rekordy');
+  });
+
+  it('picks the English plural form for the count', () => {
+    expect(translate('en', 'sources.records', { count: 1 })).toBe('1 record');
+    expect(translate('en', 'sources.records', { count: 3 })).toBe('3 records');
+  });
+
+  it('formats numeric parameters for the locale', () => {
+    expect(translate('en', 'sources.records', { count: 1234 })).toBe('1,234 records');
+    expect(translate('pl', 'sources.records', { count: 12345 })).toMatch(/^12\s345 rekordów$/);
+  });
+
+  it('fills string parameters and leaves unknown placeholders untouched', () => {
+    expect(translate('en', 'library.confirmDelete', { name: 'March' })).toBe('Delete dataset "March"?');
+    expect(translate('en', 'library.confirmDelete')).toBe('Delete dataset "{name}"?');
+  });
+});
+
+describe('catalogues', () => {
+  it('translate every message into English with the same placeholders', () => {
+    const placeholders = (message: string | PluralMessage) =>
+      Array.from(new Set((typeof message === 'string' ? message : message.other).match(/\{\w+\}/g) ?? [])).sort();
+
+    (Object.keys(pl) as MessageKey[]).forEach(key => {
+      expect(en[key], key).toBeDefined();
+      expect(placeholders(en[key]), key).toEqual(placeholders(pl[key]));
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import en from './en';
+import pl from './pl';
+
+export type Language = 'pl' | 'en';
+
+// Plural messages pick a form with Intl.PluralRules from the `count` parameter,
+// e.g. Polish one/few/many: 1 zamówienie, 2 zamówienia, 5 zamówień.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof pl;
+
+export type Catalogue = Record<MessageKey, Message>;
+
+export type TranslateParams = Record<string, string | number>;
+
+export const LANGUAGES: { language: Language; label: string; locale: string }[] = [
+  { language: 'pl', label: 'PL', locale: 'pl-PL' },
+  { language: 'en', label: 'EN', locale: 'en-GB' }
+];
+
+const CATALOGUES: Record<Language, Catalogue> = { pl, en };
+
+export const localeOf = (language: Language) =>
+  LANGUAGES.find(candidate => candidate.language === language)?.locale ?? 'pl-PL';
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const pluralForm = (message: PluralMessage, count: number, locale: string) => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+};
+
+// Numeric parameters are formatted for the locale, so counts read "12 345" in Polish and "12,345" in English.
+export const translate = (language: Language, key: MessageKey, params: TranslateParams = {}) => {
+  const locale = localeOf(language);
+  const message = CATALOGUES[language][key];
+  const text = typeof message === 'string' ? message : pluralForm(message, Number(params.count), locale);
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? value.toLocaleString(locale) : value;
+  });
+};
+
+const LANGUAGE_KEY = 'salesDashboard.language';
+
+export const loadLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (stored === 'pl' || stored === 'en') return stored;
+  } catch {
+    // Fall through to the browser language.
+  }
+  return navigator.language.toLowerCase().startsWith('pl') ? 'pl' : 'en';
+};
+
+export const saveLanguage = (language: Language) => {
+  localStorage.setItem(LANGUAGE_KEY, language);
+};
@@ -0,0 +1,466 @@
+// Source catalogue: its keys define MessageKey, every other language must translate all of them.
+const pl = {
+  'app.title': 'Analityka Sprzedaży',
+  'app.language': 'Język',
+  'app.processing': 'Przetwarzanie...',
+  'app.recomputing': 'Przeliczanie…',
+  'app.noData': 'Brak danych do wyświetlenia. Włącz co najmniej jedno źródło danych lub zmień zakres dat.',
+  'app.groupBy': 'Grupuj według',
+  'app.grouping.product': 'Produktu',
+  'app.grouping.category': 'Kategorii',
+
+  'upload.title': 'Wczytaj dane sprzedaży',
+  'upload.description': 'Wczytaj jeden lub więcej plików CSV, aby przeanalizować sprzedaż i znaleźć zależności',
+  'upload.choose': 'Wybierz pliki CSV',
+  'upload.addFiles': 'Dodaj pliki',
+  'upload.newDataset': 'Nowy zbiór danych',
+
+  'report.button': 'Raport PDF',
+  'report.generating': 'Generowanie...',
+  'report.failed': 'Nie udało się wygenerować raportu: {message}',
+  'report.dataset': 'Zbiór danych: {name}',
+  'report.sources': 'Źródła: {names}',
+  'report.dateRange': 'Zakres dat: {range}',
+  'report.comparison': 'Porównanie: {range}',
+  'report.noComparison': 'brak',
+  'report.grouping': 'Grupowanie: {grouping}',
+  'report.groupingProduct': 'według produktu',
+  'report.groupingCategory': 'według kategorii',
+  'report.currency': 'Waluta: {currency}',
+  'report.generatedAt': 'Wygenerowano: {date}',
+  'report.fileName': 'raport_sprzedazy',
+
+  'kpi.revenue': 'Przychód łącznie',
+  'kpi.orders': 'Zamówienia',
+  'kpi.avgOrderValue': 'Średnia wartość zamówienia',
+  'kpi.uniqueCustomers': 'Unikalni klienci',
+
+  'chart.orders': 'Zamówienia',
+  'chart.ordersComparison': 'Zamówienia (porównanie)',
+  'chart.revenue': 'Przychód ({currency})',
+  'chart.revenueComparison': 'Przychód ({currency}, porównanie)',
+  'chart.volume': 'Liczba zamówień',
+  'chart.avgPrice': 'Średnia cena ({currency})',
+  'chart.customers': 'Liczba klientów',
+  'chart.revenueByProduct': 'Przychód według produktu',
+  'chart.revenueByCategory': 'Przychód według kategorii',
+  'chart.hourly': 'Zamówienia i przychód według godziny zakupu',
+  'chart.payments': 'Rodzaje płatności',
+  'chart.frequency': 'Częstotliwość wizyt',
+  'chart.priceVolume': 'Porównanie cen i liczby zamówień',
+  'chart.products.fileName': 'przychod_wedlug_produktu',
+  'chart.hourly.fileName': 'zamowienia_wedlug_godziny',
+  'chart.payments.fileName': 'rodzaje_platnosci',
+  'chart.frequency.fileName': 'czestotliwosc_wizyt',
+  'chart.priceVolume.fileName': 'ceny_i_ilosc',
+
+  'frequency.1': '1 zamówienie',
+  'frequency.2-3': '2–3 zamówienia',
+  'frequency.4-5': '4–5 zamówień',
+  'frequency.6+': '6+ zamówień',
+
+  'insights.title': 'Główne wnioski',
+  'insights.topProduct': 'Najlepszy produkt',
+  'insights.topCategory': 'Najlepsza kategoria',
+  'insights.topProductText': 'generuje największą sprzedaż wynoszącą łącznie {revenue}.',
+  'insights.peakHour': 'Godziny szczytu',
+  'insights.peakHourText': {
+    one: 'jest godziną z największym ruchem, z {count} zamówieniem.',
+    few: 'jest godziną z największym ruchem, z {count} zamówieniami.',
+    many: 'jest godziną z największym ruchem, z {count} zamówieniami.',
+    other: 'jest godziną z największym ruchem, z {count} zamówienia.'
+  },
+  'insights.customers': 'Liczebność klientów',
+  'insights.customersText': {
+    one: 'unikalny klient',
+    few: 'unikalnych klientów',
+    many: 'unikalnych klientów',
+    other: 'unikalnego klienta'
+  },
+  'insights.customerOrders': {
+    one: 'z {count} zamówieniem',
+    few: 'z {count} zamówieniami',
+    many: 'z {count} zamówieniami',
+    other: 'z {count} zamówienia'
+  },
+  'insights.ordersPerCustomer': '({value} zamówienia na osobę)',
+  'insights.typicalOrder': 'Typowa transakcja',
+  'insights.typicalOrderText': 'średnio na zamówienie',
+
+  'anomalies.title': 'Wykryte anomalie',
+  'anomalies.subtitle': 'Sprawdzane przy każdym imporcie danych, od najpoważniejszych',
+  'anomalies.rules': 'Reguły alertów ({count})',
+  'anomalies.noRules': 'Brak reguł. Dodaj np. „Przychód dzienny poniżej 500”.',
+  'anomalies.addRule': 'Dodaj regułę',
+  'anomalies.metric.dailyRevenue': 'Przychód dzienny',
+  'anomalies.metric.dailyOrders': 'Zamówienia dziennie',
+  'anomalies.metric.cashShare': 'Udział gotówki',
+  'anomalies.operator.below': 'poniżej',
+  'anomalies.operator.above': 'powyżej',
+  'anomalies.ruleText': '{metric} {operator} {threshold}',
+  'anomalies.kind.all': 'Wszystkie',
+  'anomalies.kind.rule': 'Reguły',
+  'anomalies.kind.lowRevenue': 'Słaby dzień',
+  'anomalies.kind.priceChange': 'Zmiana ceny',
+  'anomalies.kind.stoppedSelling': 'Brak sprzedaży',
+  'anomalies.kind.paymentShift': 'Płatności',
+  'anomalies.rule': 'Reguła „{rule}” – wartość {value}.',
+  'anomalies.lowRevenue': 'Przychód {revenue} to o {drop}% mniej niż zwykle w ten dzień tygodnia ({expected}).',
+  'anomalies.priceChange': '{product}: nowa cena {price} (wcześniej {previous}).',
+  'anomalies.stoppedSelling': {
+    one: '{product}: brak sprzedaży od {count} dnia.',
+    few: '{product}: brak sprzedaży od {count} dni.',
+    many: '{product}: brak sprzedaży od {count} dni.',
+    other: '{product}: brak sprzedaży od {count} dnia.'
+  },
+  'anomalies.paymentShift': 'Udział gotówki w tym tygodniu wyniósł {share}% wobec {expected}% w całym okresie.',
+  'anomalies.show': 'Pokaż dane',
+  'anomalies.empty': 'Nie wykryto anomalii.',
+  'anomalies.showAll': 'Pokazano {shown} z {count} – pokaż wszystkie',
+  'anomalies.showFewer': 'Pokaż mniej',
+  'anomalies.fileName': 'anomalie',
+
+  'widgets.kpis': 'Kluczowe wskaźniki',
+  'chartType.bar': 'Wykres słupkowy',
+  'chartType.line': 'Wykres liniowy',
+  'chartType.pie': 'Wykres kołowy',
+  'chartType.table': 'Tabela',
+  'layout.edit': 'Edytuj układ',
+  'layout.done': 'Zakończ edycję',
+  'layout.reset': 'Układ domyślny',
+  'layout.width': 'Szerokość',
+  'layout.moveUp': 'Przesuń wcześniej',
+  'layout.moveDown': 'Przesuń dalej',
+  'layout.remove': 'Usuń z pulpitu',
+  'layout.add': 'Dodaj widżet:',
+  'layout.allShown': 'Wszystkie widżety są już na pulpicie.',
+  'layout.empty': 'Pulpit jest pusty. Dodaj widżety w trybie edycji układu.',
+  'views.title': 'Widoki',
+  'views.count': {
+    one: '{count} zapisany',
+    few: '{count} zapisane',
+    many: '{count} zapisanych',
+    other: '{count} zapisanego'
+  },
+  'views.namePlaceholder': 'Nazwa widoku, np. właściciel',
+  'views.save': 'Zapisz bieżący widok',
+  'views.apply': 'Zastosuj',
+  'views.widgets': {
+    one: '{count} widżet',
+    few: '{count} widżety',
+    many: '{count} widżetów',
+    other: '{count} widżetu'
+  },
+  'views.empty': 'Brak zapisanych widoków. Widok zapamiętuje układ pulpitu razem z filtrami.',
+  'views.export': 'Eksportuj JSON',
+  'views.import': 'Importuj JSON',
+  'views.imported': {
+    one: 'Zaimportowano {count} widok.',
+    few: 'Zaimportowano {count} widoki.',
+    many: 'Zaimportowano {count} widoków.',
+    other: 'Zaimportowano {count} widoku.'
+  },
+  'views.importFailed': 'Nie udało się zaimportować widoków: {message}',
+  'views.invalidFile': 'to nie jest plik z widokami pulpitu',
+  'views.fileName': 'widoki_pulpitu',
+
+  'sources.records': {
+    one: '{count} rekord',
+    few: '{count} rekordy',
+    many: '{count} rekordów',
+    other: '{count} rekordu'
+  },
+  'sources.duplicates': {
+    one: '{count} duplikat',
+    few: '{count} duplikaty',
+    many: '{count} duplikatów',
+    other: '{count} duplikatu'
+  },
+  'sources.rejected': {
+    one: '{count} odrzucony',
+    few: '{count} odrzucone',
+    many: '{count} odrzuconych',
+    other: '{count} odrzuconego'
+  },
+  'sources.currency': 'Waluta źródła',
+  'sources.remove': 'Usuń źródło',
+
+  'common.close': 'Zamknij',
+  'common.delete': 'Usuń',
+  'common.save': 'Zapisz',
+  'common.cancel': 'Anuluj',
+  'common.unknownError': 'Wystąpił nieznany błąd',
+
+  'importReport.title': 'Raport importu',
+  'importReport.accepted': 'Zaakceptowane: {count}',
+  'importReport.rejected': 'Odrzucone: {count}',
+  'importReport.total': 'Wszystkie: {count}',
+  'importReport.download': 'Pobierz odrzucone wiersze',
+  'importReport.fileSuffix': 'odrzucone',
+
+  'rejection.missing_product': 'Brak produktu',
+  'rejection.non_positive_amount': 'Kwota niedodatnia lub nieczytelna',
+  'rejection.invalid_date': 'Nieprawidłowa data',
+  'rejection.date_mismatch': 'Data niezgodna z datą i godziną',
+  'rejection.unknown_payment_type': 'Nieznany typ płatności',
+
+  'wizard.title': 'Mapowanie kolumn',
+  'wizard.readError': 'Nie udało się wczytać pliku: {message}',
+  'wizard.error.noHeader': 'plik nie ma wiersza nagłówka',
+  'wizard.error.parseFailed': 'nie udało się przetworzyć pliku CSV ({detail})',
+  'wizard.error.mappingFailed': 'nie udało się przypisać kolumn ({detail})',
+  'wizard.error.superseded': 'odczyt rozpoczęto ponownie z innymi ustawieniami',
+  'wizard.error.cancelled': 'import został anulowany',
+  'wizard.error.unexpectedResponse': 'proces importu zwrócił nieoczekiwaną odpowiedź',
+  'wizard.loading': 'Wczytywanie pliku… {loaded} / {total} MB',
+  'wizard.presets': 'Zapisane ustawienia',
+  'wizard.delimiter': 'Separator kolumn',
+  'wizard.decimalSeparator': 'Separator dziesiętny',
+  'wizard.decimalPoint': 'Kropka (38.70)',
+  'wizard.decimalComma': 'Przecinek (38,70)',
+  'wizard.dateFormat': 'Format daty',
+  'wizard.currency': 'Waluta',
+  'wizard.noColumn': '— brak —',
+  'wizard.preview': {
+    one: 'Podgląd: {accepted} z {count} wiersza zostanie zaimportowanych',
+    few: 'Podgląd: {accepted} z {count} wierszy zostanie zaimportowanych',
+    many: 'Podgląd: {accepted} z {count} wierszy zostanie zaimportowanych',
+    other: 'Podgląd: {accepted} z {count} wiersza zostanie zaimportowanych'
+  },
+  'wizard.previewRejected': {
+    one: ', {count} odrzucony',
+    few: ', {count} odrzucone',
+    many: ', {count} odrzuconych',
+    other: ', {count} odrzuconego'
+  },
+  'wizard.presetName': 'Nazwa ustawień, np. Kasa 1',
+  'wizard.skip': 'Pomiń plik',
+  'wizard.import': 'Importuj',
+  'wizard.importing': 'Importowanie...',
+
+  'delimiter.auto': 'Automatycznie',
+  'delimiter.comma': 'Przecinek (,)',
+  'delimiter.semicolon': 'Średnik (;)',
+  'delimiter.tab': 'Tabulator',
+  'delimiter.pipe': 'Kreska (|)',
+
+  'field.datetime': 'Data i godzina',
+  'field.date': 'Data',
+  'field.coffee_name': 'Produkt',
+  'field.money': 'Kwota',
+  'field.cash_type': 'Typ płatności',
+  'field.card': 'Karta klienta',
+
+  'dateRange.all': 'Cały okres',
+  'dateRange.last7': 'Ostatnie 7 dni',
+  'dateRange.last30': 'Ostatnie 30 dni',
+  'dateRange.last90': 'Ostatnie 90 dni',
+  'dateRange.thisMonth': 'Bieżący miesiąc',
+  'dateRange.custom': 'Własny zakres',
+
+  'comparison.none': 'Bez porównania',
+  'comparison.previous': 'Poprzedni okres',
+  'comparison.lastYear': 'Rok wcześniej',
+  'comparison.custom': 'Własny okres',
+
+  'timeSeries.title': 'Trend przychodu i zamówień',
+  'timeSeries.day': 'Dzień',
+  'timeSeries.week': 'Tydzień',
+  'timeSeries.month': 'Miesiąc',
+  'timeSeries.movingAverage': 'Średnia krocząca',
+  'timeSeries.revenue': 'Przychód ({currency})',
+  'timeSeries.revenueAverage': 'Przychód ({currency}, średnia krocząca)',
+  'timeSeries.orders': 'Zamówienia',
+  'timeSeries.ordersAverage': 'Zamówienia (średnia krocząca)',
+  'timeSeries.fileName.day': 'trend_dzienny',
+  'timeSeries.fileName.week': 'trend_tygodniowy',
+  'timeSeries.fileName.month': 'trend_miesieczny',
+
+  'heatmap.title': 'Ruch według dnia tygodnia i godziny',
+  'heatmap.subtitle': 'Średnio na dzień z ruchem',
+  'heatmap.orders': 'Zamówienia',
+  'heatmap.revenue': 'Przychód',
+  'heatmap.fileName.orders': 'ruch_zamowienia',
+  'heatmap.fileName.revenue': 'ruch_przychod',
+  'heatmap.transactions': {
+    one: '{count} transakcja',
+    few: '{count} transakcje',
+    many: '{count} transakcji',
+    other: '{count} transakcji'
+  },
+
+  'transaction.datetime': 'Data i godzina',
+  'transaction.product': 'Produkt',
+  'transaction.amount': 'Kwota',
+  'transaction.payment': 'Płatność',
+  'transaction.card': 'Karta',
+  'transaction.source': 'Źródło',
+
+  'baskets.title': 'Koszyki i powiązania produktów',
+  'baskets.subtitle': 'Zakupy tą samą kartą, a przy gotówce na tej samej kasie, tworzą jeden koszyk',
+  'baskets.gap': 'Odstęp do (min)',
+  'baskets.count': 'Koszyki',
+  'baskets.avgSize': 'Średnia liczba pozycji',
+  'baskets.avgValue': 'Średnia wartość koszyka',
+  'baskets.multiItem': 'Koszyki z 2+ pozycjami',
+  'baskets.matrix': 'Macierz współzakupów',
+  'baskets.rules': 'Reguły powiązań',
+  'baskets.matrixHint': 'Liczba koszyków z oboma produktami; na przekątnej koszyki z danym produktem.',
+  'baskets.antecedent': 'Jeśli w koszyku',
+  'baskets.consequent': 'To również',
+  'baskets.together': 'Koszyki',
+  'baskets.support': 'Wsparcie',
+  'baskets.confidence': 'Pewność',
+  'baskets.lift': 'Lift',
+  'baskets.empty': 'Żaden koszyk nie zawiera więcej niż jednego produktu.',
+  'baskets.limited': 'Pokazano {shown} z {count} reguł o najwyższym lifcie.',
+  'baskets.fileName': 'powiazania_produktow',
+
+  'forecast.title': 'Prognoza popytu',
+  'forecast.subtitle': 'Model sezonowy według dnia tygodnia i godziny, dopasowany do ostatnich {days} dni',
+  'forecast.weeks': {
+    one: '{count} tydzień',
+    few: '{count} tygodnie',
+    many: '{count} tygodni',
+    other: '{count} tygodnia'
+  },
+  'forecast.revenue': 'Przychód',
+  'forecast.products': 'Produkty',
+  'forecast.hourly': 'Godziny',
+  'forecast.backtest': 'Test wsteczny',
+  'forecast.actual': 'Dane rzeczywiste',
+  'forecast.forecast': 'Prognoza',
+  'forecast.band': 'Przedział 95%',
+  'forecast.product': 'Produkt',
+  'forecast.units': 'Sztuki',
+  'forecast.perDay': 'Dziennie',
+  'forecast.backtestError': 'Błąd testu wstecznego',
+  'forecast.day': 'Dzień',
+  'forecast.orders': 'Oczekiwane zamówienia',
+  'forecast.mae': 'Średni błąd bezwzględny: {value}',
+  'forecast.mape': 'Średni błąd procentowy: {value}%',
+  'forecast.backtestHint': 'Prognoza z danych sprzed {date} porównana z rzeczywistą sprzedażą.',
+  'forecast.notEnough': 'Prognoza wymaga co najmniej {days} dni historii.',
+  'forecast.fileName': 'prognoza',
+
+  'explorer.title': 'Transakcje',
+  'explorer.count': {
+    one: '{count} transakcja',
+    few: '{count} transakcje',
+    many: '{count} transakcji',
+    other: '{count} transakcji'
+  },
+  'explorer.shown': '{shown} z {count} transakcji',
+  'explorer.search': 'Szukaj we wszystkich kolumnach...',
+  'explorer.allProducts': 'Wszystkie produkty',
+  'explorer.allPayments': 'Wszystkie płatności',
+  'explorer.card': 'Karta zawiera...',
+  'explorer.minAmount': 'Kwota od',
+  'explorer.maxAmount': 'Kwota do',
+  'explorer.from': 'Od dnia',
+  'explorer.to': 'Do dnia',
+  'explorer.clear': 'Wyczyść filtry',
+  'explorer.empty': 'Żadna transakcja nie pasuje do filtrów.',
+  'explorer.fileName': 'transakcje',
+
+  'customers.title': 'Klienci',
+  'customers.subtitle': {
+    one: '{count} klient z kartą, bez anonimowych płatności gotówką',
+    few: '{count} klientów z kartą, bez anonimowych płatności gotówką',
+    many: '{count} klientów z kartą, bez anonimowych płatności gotówką',
+    other: '{count} klienta z kartą, bez anonimowych płatności gotówką'
+  },
+  'customers.cohorts': 'Kohorty',
+  'customers.segments': 'Segmenty RFM',
+  'customers.customers': 'Klienci',
+  'customers.empty': 'Brak transakcji z identyfikatorem karty.',
+  'customers.cohort': 'Kohorta',
+  'customers.segment': 'Segment',
+  'customers.revenue': 'Przychód',
+  'customers.search': 'Szukaj karty...',
+  'customers.card': 'Karta',
+  'customers.lifetimeValue': 'Wartość klienta',
+  'customers.orders': 'Zamówienia',
+  'customers.favouriteProduct': 'Ulubiony produkt',
+  'customers.lastPurchase': 'Ostatnia wizyta',
+  'customers.limited': 'Pokazano {shown} z {count} klientów o najwyższej wartości.',
+
+  'segment.champions': 'Najlepsi klienci',
+  'segment.loyal': 'Lojalni',
+  'segment.potential': 'Potencjalnie lojalni',
+  'segment.new': 'Nowi',
+  'segment.atRisk': 'Zagrożeni odejściem',
+  'segment.needAttention': 'Wymagają uwagi',
+  'segment.lost': 'Utraceni',
+
+  'catalogue.title': 'Katalog produktów',
+  'catalogue.names': {
+    one: '{count} nazwa w danych',
+    few: '{count} nazwy w danych',
+    many: '{count} nazw w danych',
+    other: '{count} nazwy w danych'
+  },
+  'catalogue.rawName': 'Nazwa w danych',
+  'catalogue.orders': 'Zamówienia',
+  'catalogue.product': 'Produkt',
+  'catalogue.category': 'Kategoria',
+
+  'category.espresso': 'Napoje na bazie espresso',
+  'category.chocolate': 'Czekolada',
+  'category.tea': 'Herbata',
+  'category.alcohol': 'Z alkoholem',
+  'category.other': 'Inne',
+
+  'library.button': 'Biblioteka',
+  'library.title': 'Zapisane zbiory danych',
+  'library.subtitle': 'Przechowywane tylko w tej przeglądarce',
+  'library.empty': 'Brak zapisanych zbiorów danych.',
+  'library.name': 'Nazwa',
+  'library.files': 'Pliki źródłowe',
+  'library.importedAt': 'Data importu',
+  'library.rows': 'Wiersze',
+  'library.rename': 'Zmień nazwę',
+  'library.open': 'Otwórz',
+  'library.confirmDelete': 'Usunąć zbiór danych "{name}"?',
+  'library.storageError': 'Błąd zapisu w przeglądarce: {message}',
+  'library.storageUnavailable': 'pamięć lokalna jest niedostępna',
+
+  'currency.title': 'Waluty i kursy',
+  'currency.rates': {
+    one: '{count} kurs',
+    few: '{count} kursy',
+    many: '{count} kursów',
+    other: '{count} kursu'
+  },
+  'currency.reporting': 'Waluta raportowa',
+  'currency.noConversion': 'Bez przeliczania',
+  'currency.mixed': 'Źródła mają różne waluty ({currencies}). Wybierz walutę raportową, aby sumy były poprawne.',
+  'currency.required': 'Źródła mają różne waluty ({currencies}), więc ich kwot nie można zsumować. Wybierz powyżej walutę raportową, aby zobaczyć pulpit.',
+  'currency.missing': 'Brak kursu na {currency} dla: {missing}. Te transakcje pominięto w zestawieniach.',
+  'currency.missingCount': {
+    one: '{currency} ({count} transakcja)',
+    few: '{currency} ({count} transakcje)',
+    many: '{currency} ({count} transakcji)',
+    other: '{currency} ({count} transakcji)'
+  },
+  'currency.validFrom': 'Obowiązuje od',
+  'currency.unit': '1 jednostka',
+  'currency.rate': 'Kurs',
+  'currency.target': 'Waluta docelowa',
+  'currency.empty': 'Brak kursów. Kurs obowiązuje od podanej daty do następnego kursu tej samej pary walut.',
+  'currency.add': 'Dodaj kurs',
+
+  'export.failed': 'Eksport nie powiódł się: {message}',
+
+  'crossFilter.title': 'Filtry',
+  'crossFilter.product': 'Produkt',
+  'crossFilter.category': 'Kategoria',
+  'crossFilter.payment': 'Płatność',
+  'crossFilter.hour': 'Godzina',
+  'crossFilter.frequency': 'Częstotliwość',
+  'crossFilter.remove': 'Usuń filtr',
+  'crossFilter.clear': 'Wyczyść filtry',
+  'crossFilter.hint': 'Kliknij słupek, wycinek lub punkt wykresu, aby filtrować cały panel.'
+};
+
+export default pl;
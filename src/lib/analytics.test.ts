@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture, record } from '../test/fixtures';
+import {
+  computeAnalytics,
+  computeCustomerFrequency,
+  computeHourlyStats,
+  computeKpis,
+  type SalesAnalytics
+} from './analytics';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('computeAnalytics on index_1.csv', () => {
+  const data = loadFixture('index_1.csv');
+  const analytics = computeAnalytics(data) as SalesAnalytics;
+
+  it('pins the headline KPIs', () => {
+    expect(data).toHaveLength(3636);
+    expect(analytics.totalOrders).toBe(3636);
+    expect(analytics.totalRevenue).toBeCloseTo(115431.58, 2);
+    expect(analytics.avgOrderValue).toBeCloseTo(115431.58 / 3636, 6);
+    expect(analytics.uniqueCustomers).toBe(1316);
+  });
+
+  it('keeps every breakdown consistent with the totals', () => {
+    expect(sum(analytics.coffeeChartData.map(item => item.count))).toBe(analytics.totalOrders);
+    expect(sum(analytics.coffeeChartData.map(item => item.revenue))).toBeCloseTo(analytics.totalRevenue, 2);
+    expect(sum(analytics.hourlyChartData.map(item => item.orders))).toBe(analytics.totalOrders);
+    expect(sum(analytics.hourlyChartData.map(item => item.revenue))).toBeCloseTo(analytics.totalRevenue, 2);
+    expect(sum(analytics.paymentChartData.map(item => item.count))).toBe(analytics.totalOrders);
+    expect(sum(analytics.customerFrequencyData.map(item => item.customers))).toBe(analytics.uniqueCustomers);
+  });
+
+  it('picks the top product and peak hour from the breakdowns', () => {
+    const maxRevenue = Math.max(...analytics.coffeeChartData.map(item => item.revenue));
+    const maxOrders = Math.max(...analytics.hourlyChartData.map(item => item.orders));
+    expect(analytics.topProduct?.revenue).toBe(maxRevenue);
+    expect(analytics.peakHour?.orders).toBe(maxOrders);
+  });
+});
+
+describe('computeAnalytics on index_2.csv', () => {
+  const data = loadFixture('index_2.csv');
+  const analytics = computeAnalytics(data) as SalesAnalytics;
+
+  it('pins the headline KPIs', () => {
+    expect(analytics.totalOrders).toBe(262);
+    expect(analytics.totalRevenue).toBeCloseTo(6890, 2);
+  });
+
+  it('counts no customers when the file has no card column', () => {
+    expect(analytics.uniqueCustomers).toBe(0);
+    expect(analytics.customerOrders).toBe(0);
+    expect(analytics.customerFrequencyData).toEqual([]);
+  });
+});
+
+describe('computeAnalytics edge cases', () => {
+  it('returns null for an empty dataset', () => {
+    expect(computeAnalytics([])).toBeNull();
+  });
+
+  it('reports zero KPIs instead of dividing by zero', () => {
+    expect(computeKpis([])).toEqual({
+      totalRevenue: 0,
+      totalOrders: 0,
+      avgOrderValue: 0,
+      uniqueCustomers: 0,
+      customerOrders: 0
+    });
+  });
+
+  it('buckets hours by the wall-clock hour from the file', () => {
+    const hourly = computeHourlyStats([
+      record({ datetime: '2024-03-01 23:59:00', hour: 23 }),
+      record({ datetime: '2024-03-02 00:01:00', date: '2024-03-02', hour: 0 })
+    ]);
+    expect(hourly.map(item => item.hour)).toEqual(['0:00', '23:00']);
+  });
+
+  it('orders frequency buckets from least to most frequent', () => {
+    const data = [
+      ...Array.from({ length: 6 }, () => record({ card: 'A' })),
+      record({ card: 'B' }),
+      record({ card: 'C' }),
+      record({ card: 'C' }),
+      record({ cash_type: 'cash', card: '' })
+    ];
+    expect(computeCustomerFrequency(data)).toEqual([
+      { bucket: '1', customers: 1 },
+      { bucket: '2-3', customers: 1 },
+      { bucket: '6+', customers: 1 }
+    ]);
+  });
+
+  it('aggregates products under the label returned by productOf', () => {
+    const analytics = computeAnalytics(
+      [record({ coffee_name: 'Latte' }), record({ coffee_name: 'Cappuccino', money: 20 })],
+      { productOf: () => 'Espresso' }
+    ) as SalesAnalytics;
+    expect(analytics.coffeeChartData).toEqual([{ name: 'Espresso', count: 2, revenue: 30, avgPrice: 15 }]);
+    expect(analytics.paymentChartData).toEqual([{ method: 'card', count: 2, revenue: 30, percentage: 100 }]);
+  });
+});
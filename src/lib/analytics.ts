@@ -0,0 +1,235 @@
+import { isIdentified } from './customers';
+import type { SalesRecord } from '../types';
+
+export interface KpiSummary {
+  totalRevenue: number;
+  totalOrders: number;
+  avgOrderValue: number;
+  // Distinct card identifiers; anonymous cash sales are not counted as customers.
+  uniqueCustomers: number;
+  customerOrders: number;
+}
+
+export type ProductStats = {
+  name: string;
+  count: number;
+  revenue: number;
+  avgPrice: number;
+};
+
+export type HourlyStats = {
+  hour: string;
+  orders: number;
+  revenue: number;
+};
+
+export type PaymentStats = {
+  method: string;
+  count: number;
+  revenue: number;
+  percentage: number;
+};
+
+export type FrequencyBucket = {
+  bucket: FrequencyBucketId;
+  customers: number;
+};
+
+export type PriceVolumeStats = {
+  coffee: string;
+  price: number;
+  volume: number;
+};
+
+export interface SalesAnalytics extends KpiSummary {
+  coffeeChartData: ProductStats[];
+  hourlyChartData: HourlyStats[];
+  paymentChartData: PaymentStats[];
+  customerFrequencyData: FrequencyBucket[];
+  priceVolumeData: PriceVolumeStats[];
+  topProduct: ProductStats | null;
+  peakHour: HourlyStats | null;
+}
+
+export interface AnalyticsOptions {
+  // Label a record is aggregated under in the product stats, e.g. its canonical product or category.
+  productOf?: (record: SalesRecord) => string;
+}
+
+// Running sums an analytics result is derived from. They can be built per day once and merged
+// for any date range, so the dashboard does not have to rescan every record on a filter change.
+export interface Tally {
+  count: number;
+  revenue: number;
+}
+
+export interface AnalyticsTotals {
+  revenue: number;
+  orders: number;
+  products: Record<string, Tally>;
+  hours: Tally[];
+  payments: Record<string, Tally>;
+  // Orders per card identifier; anonymous cash sales are left out.
+  cards: Record<string, number>;
+}
+
+// Sales of one day, the input of the trend and the heatmap.
+export interface DailySales {
+  date: string;
+  orders: number;
+  revenue: number;
+  hours: Tally[];
+}
+
+// Bucket ids are translated for display.
+export const FREQUENCY_BUCKETS = ['1', '2-3', '4-5', '6+'] as const;
+
+export type FrequencyBucketId = typeof FREQUENCY_BUCKETS[number];
+
+export const frequencyBucket = (frequency: number): FrequencyBucketId =>
+  frequency === 1 ? FREQUENCY_BUCKETS[0] :
+  frequency <= 3 ? FREQUENCY_BUCKETS[1] :
+  frequency <= 5 ? FREQUENCY_BUCKETS[2] : FREQUENCY_BUCKETS[3];
+
+const maxBy = <T>(items: T[], value: (item: T) => number): T | null =>
+  items.reduce<T | null>((best, item) => (best === null || value(item) > value(best) ? item : best), null);
+
+const addTally = (tallies: Record<string, Tally>, key: string, { count, revenue }: Tally) => {
+  if (!tallies[key]) {
+    tallies[key] = { count: 0, revenue: 0 };
+  }
+  tallies[key].count += count;
+  tallies[key].revenue += revenue;
+};
+
+const addHourTally = (hours: Tally[], hour: number, { count, revenue }: Tally) => {
+  hours[hour].count += count;
+  hours[hour].revenue += revenue;
+};
+
+export const emptyTotals = (): AnalyticsTotals => ({
+  revenue: 0,
+  orders: 0,
+  products: {},
+  hours: Array.from({ length: 24 }, () => ({ count: 0, revenue: 0 })),
+  payments: {},
+  cards: {}
+});
+
+// Adds `tally` sales sharing a payment type, hour and card. Uses the wall-clock hour captured
+// at import instead of re-parsing the datetime, which would shift sales between hours
+// depending on the browser's timezone.
+export const addSales = (
+  totals: AnalyticsTotals,
+  sales: Pick<SalesRecord, 'cash_type' | 'hour' | 'card'>,
+  product: string,
+  tally: Tally
+) => {
+  totals.revenue += tally.revenue;
+  totals.orders += tally.count;
+  addTally(totals.products, product, tally);
+  addHourTally(totals.hours, sales.hour, tally);
+  addTally(totals.payments, sales.cash_type, tally);
+  if (isIdentified(sales)) {
+    totals.cards[sales.card] = (totals.cards[sales.card] || 0) + tally.count;
+  }
+  return totals;
+};
+
+export const addRecord = (totals: AnalyticsTotals, record: SalesRecord, product: string) =>
+  addSales(totals, record, product, { count: 1, revenue: record.money });
+
+// Adds `source` into `target`, relabelling products on the way, e.g. to group them by category.
+export const mergeTotals = (
+  target: AnalyticsTotals,
+  source: AnalyticsTotals,
+  productOf: (product: string) => string = product => product
+) => {
+  target.revenue += source.revenue;
+  target.orders += source.orders;
+  Object.entries(source.products).forEach(([product, tally]) => addTally(target.products, productOf(product), tally));
+  source.hours.forEach((tally, hour) => addHourTally(target.hours, hour, tally));
+  Object.entries(source.payments).forEach(([method, tally]) => addTally(target.payments, method, tally));
+  Object.entries(source.cards).forEach(([card, orders]) => {
+    target.cards[card] = (target.cards[card] || 0) + orders;
+  });
+  return target;
+};
+
+export const totalsOf = (
+  data: SalesRecord[],
+  productOf: (record: SalesRecord) => string = record => record.coffee_name
+) => data.reduce((totals, record) => addRecord(totals, record, productOf(record)), emptyTotals());
+
+const kpiSummary = (totals: AnalyticsTotals): KpiSummary => ({
+  totalRevenue: totals.revenue,
+  totalOrders: totals.orders,
+  avgOrderValue: totals.orders > 0 ? totals.revenue / totals.orders : 0,
+  uniqueCustomers: Object.keys(totals.cards).length,
+  customerOrders: Object.values(totals.cards).reduce((sum, orders) => sum + orders, 0)
+});
+
+const productStats = (totals: AnalyticsTotals): ProductStats[] =>
+  Object.entries(totals.products).map(([name, { count, revenue }]) => ({
+    name,
+    count,
+    revenue,
+    avgPrice: parseFloat((revenue / count).toFixed(2))
+  }));
+
+const hourlyStats = (totals: AnalyticsTotals): HourlyStats[] =>
+  totals.hours
+    .map(({ count, revenue }, hour) => ({ hour: `${hour}:00`, orders: count, revenue }))
+    .filter(item => item.orders > 0);
+
+const paymentStats = (totals: AnalyticsTotals): PaymentStats[] =>
+  Object.entries(totals.payments).map(([method, { count, revenue }]) => ({
+    method,
+    count,
+    revenue,
+    percentage: parseFloat(((count / totals.orders) * 100).toFixed(1))
+  }));
+
+const customerFrequency = (totals: AnalyticsTotals): FrequencyBucket[] => {
+  const distribution = Object.values(totals.cards).reduce((acc, frequency) => {
+    const bucket = frequencyBucket(frequency);
+    acc[bucket] = (acc[bucket] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return FREQUENCY_BUCKETS
+    .filter(bucket => distribution[bucket])
+    .map(bucket => ({ bucket, customers: distribution[bucket] }));
+};
+
+export const summariseTotals = (totals: AnalyticsTotals): SalesAnalytics | null => {
+  if (totals.orders === 0) return null;
+
+  const coffeeChartData = productStats(totals);
+  const hourlyChartData = hourlyStats(totals);
+
+  return {
+    ...kpiSummary(totals),
+    coffeeChartData,
+    hourlyChartData,
+    paymentChartData: paymentStats(totals),
+    customerFrequencyData: customerFrequency(totals),
+    priceVolumeData: coffeeChartData.map(item => ({ coffee: item.name, price: item.avgPrice, volume: item.count })),
+    topProduct: maxBy(coffeeChartData, item => item.revenue),
+    peakHour: maxBy(hourlyChartData, item => item.orders)
+  };
+};
+
+export const computeKpis = (data: SalesRecord[]) => kpiSummary(totalsOf(data));
+
+export const computeProductStats = (data: SalesRecord[], productOf?: (record: SalesRecord) => string) =>
+  productStats(totalsOf(data, productOf));
+
+export const computeHourlyStats = (data: SalesRecord[]) => hourlyStats(totalsOf(data));
+
+export const computePaymentStats = (data: SalesRecord[]) => paymentStats(totalsOf(data));
+
+export const computeCustomerFrequency = (data: SalesRecord[]) => customerFrequency(totalsOf(data));
+
+export const computeAnalytics = (data: SalesRecord[], { productOf }: AnalyticsOptions = {}) =>
+  summariseTotals(totalsOf(data, productOf));
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '../test/fixtures';
+import { computeAnalytics, type SalesAnalytics } from './analytics';
+import { buildAnalyticsIndex, queryAnalytics, queryCustomers, queryDays, queryRecords, queryTotals } from './analyticsIndex';
+import { createProductResolver, EMPTY_CATALOGUE } from './catalogue';
+import { customerTotalsOf, type CustomerTotals } from './customers';
+import {
+  applyCrossFilter,
+  cardFrequencies,
+  createCrossFilterMatcher,
+  EMPTY_CROSS_FILTER,
+  frequenciesOf,
+  type CrossFilter
+} from './crossFilter';
+import { filterByDateRange, type ResolvedDateRange } from './dateRange';
+
+// Day buckets are merged in date order, so only the order of products may differ from a full scan.
+const normalise = (analytics: SalesAnalytics | null) => analytics && {
+  ...analytics,
+  totalRevenue: analytics.totalRevenue.toFixed(2),
+  avgOrderValue: analytics.avgOrderValue.toFixed(2),
+  coffeeChartData: analytics.coffeeChartData
+    .map(item => ({ ...item, revenue: item.revenue.toFixed(2) }))
+    .sort((a, b) => a.name.localeCompare(b.name)),
+  hourlyChartData: analytics.hourlyChartData.map(item => ({ ...item, revenue: item.revenue.toFixed(2) })),
+  paymentChartData: analytics.paymentChartData
+    .map(item => ({ ...item, revenue: item.revenue.toFixed(2) }))
+    .sort((a, b) => a.method.localeCompare(b.method)),
+  priceVolumeData: [...analytics.priceVolumeData].sort((a, b) => a.coffee.localeCompare(b.coffee)),
+  topProduct: analytics.topProduct?.name,
+  peakHour: analytics.peakHour?.hour
+};
+
+describe('queryAnalytics', () => {
+  const data = loadFixture('index_1.csv');
+  const index = buildAnalyticsIndex(data);
+
+  const ranges: ResolvedDateRange[] = [
+    { from: null, to: null },
+    { from: '2024-05-01', to: '2024-05-31' },
+    { from: '2024-10-15', to: null },
+    { from: null, to: '2024-03-01' },
+    { from: '2023-01-01', to: '2023-12-31' }
+  ];
+
+  it.each(ranges)('matches a full scan for $from – $to', range => {
+    expect(normalise(queryAnalytics(index, range))).toEqual(normalise(computeAnalytics(filterByDateRange(data, range))));
+  });
+
+  it('relabels products at query time', () => {
+    const productOf = (name: string) => (name.includes('Chocolate') ? 'Chocolate' : 'Coffee');
+    const grouped = queryAnalytics(index, { from: null, to: null }, productOf);
+    const scanned = computeAnalytics(data, { productOf: record => productOf(record.coffee_name) });
+    expect(normalise(grouped)).toEqual(normalise(scanned));
+  });
+
+  it('keeps one bucket per trading day in date order', () => {
+    const dates = index.map(day => day.date);
+    expect(new Set(data.map(record => record.date)).size).toBe(dates.length);
+    expect([...dates].sort()).toEqual(dates);
+  });
+});
+
+describe('cross-filtered queries', () => {
+  const data = loadFixture('index_1.csv');
+  const index = buildAnalyticsIndex(data);
+  const resolveProduct = createProductResolver(EMPTY_CATALOGUE);
+  const range = { from: '2024-05-01', to: '2024-07-31' };
+
+  const filters: CrossFilter[] = [
+    { ...EMPTY_CROSS_FILTER, product: ['Latte', 'Cappuccino'] },
+    { ...EMPTY_CROSS_FILTER, category: ['chocolate'], hour: ['10', '11'] },
+    { ...EMPTY_CROSS_FILTER, frequency: ['2-3'], payment: ['card'] }
+  ];
+
+  // The records a full scan keeps, and the matcher the worker would query the index with.
+  const select = (filter: CrossFilter) => ({
+    scanned: filterByDateRange(
+      applyCrossFilter(data, filter, { resolveProduct, frequencies: cardFrequencies(filterByDateRange(data, range)) }),
+      range
+    ),
+    match: createCrossFilterMatcher(filter, { resolveProduct, frequencies: frequenciesOf(queryTotals(index, range).cards) })
+  });
+
+  it.each(filters)('matches filtering the records first (%o)', filter => {
+    const { scanned, match } = select(filter);
+
+    expect(scanned.length).toBeGreaterThan(0);
+    expect(normalise(queryAnalytics(index, range, undefined, match))).toEqual(normalise(computeAnalytics(scanned)));
+    expect(Array.from(queryRecords(index, range, match), position => data[position])).toEqual(scanned);
+  });
+
+  it('collects the daily sales and customers of the selection', () => {
+    const { scanned, match } = select(filters[0]);
+
+    const orders = scanned.reduce((acc, record) => ({ ...acc, [record.date]: (acc[record.date] || 0) + 1 }), {} as Record<string, number>);
+    const days = queryDays(index, range, match).filter(day => day.orders > 0);
+    expect(Object.fromEntries(days.map(day => [day.date, day.orders]))).toEqual(orders);
+
+    const customers = (totals: Record<string, CustomerTotals>) =>
+      Object.fromEntries(Object.entries(totals).map(([card, customer]) => [card, { ...customer, revenue: customer.revenue.toFixed(2) }]));
+    expect(customers(queryCustomers(index, range, undefined, match))).toEqual(
+      customers(customerTotalsOf(scanned, record => record.coffee_name))
+    );
+  });
+
+  it('keeps trading days on which the selection sold nothing', () => {
+    const days = queryDays(index, range, select(filters[1]).match);
+    expect(days.map(day => day.date)).toEqual(queryDays(index, range).map(day => day.date));
+    expect(days.some(day => day.orders === 0)).toBe(true);
+  });
+
+  it('returns every record of the range in import order without a selection', () => {
+    expect(Array.from(queryRecords(index, range), position => data[position])).toEqual(filterByDateRange(data, range));
+  });
+});
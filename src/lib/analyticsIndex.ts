@@ -0,0 +1,133 @@
+import {
+  addRecord,
+  addSales,
+  emptyTotals,
+  mergeTotals,
+  summariseTotals,
+  type AnalyticsTotals,
+  type DailySales
+} from './analytics';
+import type { CrossFilterFields } from './crossFilter';
+import { addPurchases, isIdentified, type CustomerTotals } from './customers';
+import type { ResolvedDateRange } from './dateRange';
+import type { SalesRecord } from '../types';
+
+// Sales of one day sharing product, payment type, hour and card: the finest grain a chart
+// selection can tell apart. `records` are positions in the array the index was built from.
+export interface SalesCell extends CrossFilterFields {
+  count: number;
+  revenue: number;
+  records: number[];
+}
+
+export interface DayTotals {
+  date: string;
+  totals: AnalyticsTotals;
+  cells: SalesCell[];
+}
+
+// Per-day totals sorted by date, with products kept under their raw names so that a different
+// catalogue or grouping only relabels them at query time.
+export type AnalyticsIndex = DayTotals[];
+
+// Decides which cells a query counts; without one, the pre-merged day totals are used.
+export type CellMatcher = (cell: SalesCell) => boolean;
+
+export const buildAnalyticsIndex = (data: SalesRecord[]): AnalyticsIndex => {
+  const days: Record<string, { totals: AnalyticsTotals; cells: Map<string, SalesCell> }> = {};
+  data.forEach((record, position) => {
+    if (!days[record.date]) {
+      days[record.date] = { totals: emptyTotals(), cells: new Map() };
+    }
+    const day = days[record.date];
+    addRecord(day.totals, record, record.coffee_name);
+
+    const key = `${record.coffee_name}\n${record.cash_type}\n${record.hour}\n${record.card}`;
+    const cell = day.cells.get(key);
+    if (cell) {
+      cell.count += 1;
+      cell.revenue += record.money;
+      cell.records.push(position);
+    } else {
+      const { coffee_name, cash_type, hour, card } = record;
+      day.cells.set(key, { coffee_name, cash_type, hour, card, count: 1, revenue: record.money, records: [position] });
+    }
+  });
+
+  return Object.entries(days)
+    .map(([date, { totals, cells }]) => ({ date, totals, cells: Array.from(cells.values()) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Binary search for the first day that is not before `date` (or, with `inclusive`, not on or before it).
+const searchDay = (index: AnalyticsIndex, date: string, inclusive = false) => {
+  let low = 0;
+  let high = index.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (index[middle].date < date || (inclusive && index[middle].date === date)) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+const daysInRange = (index: AnalyticsIndex, { from, to }: ResolvedDateRange) =>
+  index.slice(from ? searchDay(index, from) : 0, to ? searchDay(index, to, true) : index.length);
+
+export const queryTotals = (
+  index: AnalyticsIndex,
+  range: ResolvedDateRange,
+  productOf: (product: string) => string = product => product,
+  match?: CellMatcher
+) =>
+  daysInRange(index, range).reduce((totals, day) => {
+    if (!match) return mergeTotals(totals, day.totals, productOf);
+    day.cells.forEach(cell => {
+      if (match(cell)) addSales(totals, cell, productOf(cell.coffee_name), cell);
+    });
+    return totals;
+  }, emptyTotals());
+
+export const queryAnalytics = (
+  index: AnalyticsIndex,
+  range: ResolvedDateRange,
+  productOf?: (product: string) => string,
+  match?: CellMatcher
+) => summariseTotals(queryTotals(index, range, productOf, match));
+
+// The matching sales of every trading day in date order. Days on which nothing matched stay in
+// with zero orders, so averages per trading day still divide by the days the shop was open.
+export const queryDays = (index: AnalyticsIndex, range: ResolvedDateRange, match?: CellMatcher): DailySales[] =>
+  daysInRange(index, range).map(day => {
+    const totals = match
+      ? day.cells.reduce((sum, cell) => (match(cell) ? addSales(sum, cell, cell.coffee_name, cell) : sum), emptyTotals())
+      : day.totals;
+    return { date: day.date, orders: totals.orders, revenue: totals.revenue, hours: totals.hours };
+  });
+
+export const queryCustomers = (
+  index: AnalyticsIndex,
+  range: ResolvedDateRange,
+  productOf: (product: string) => string = product => product,
+  match?: CellMatcher
+) =>
+  daysInRange(index, range).reduce((customers, day) => {
+    day.cells.forEach(cell => {
+      if (isIdentified(cell) && (!match || match(cell))) {
+        addPurchases(customers, cell.card, day.date, productOf(cell.coffee_name), cell);
+      }
+    });
+    return customers;
+  }, {} as Record<string, CustomerTotals>);
+
+// Positions of the matching records in ascending order, i.e. in the order they were indexed.
+export const queryRecords = (index: AnalyticsIndex, range: ResolvedDateRange, match?: CellMatcher) => {
+  const positions: number[] = [];
+  daysInRange(index, range).forEach(day => day.cells.forEach(cell => {
+    if (!match || match(cell)) cell.records.forEach(position => positions.push(position));
+  }));
+  return Uint32Array.from(positions).sort();
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture, record } from '../test/fixtures';
+import { addDays } from './dates';
+import {
+  detectInsights,
+  evaluateRules,
+  lowRevenueDays,
+  paymentShifts,
+  priceChanges,
+  stoppedProducts
+} from './anomalies';
+
+const productOf = (sale: { coffee_name: string }) => sale.coffee_name;
+const currencyOf = () => 'PLN';
+
+// One sale a day from Monday 2024-03-04, worth `value(day)`.
+const daily = (days: number, value: (day: number) => number, overrides: (day: number) => object = () => ({})) =>
+  Array.from({ length: days }, (_, day) => {
+    const date = addDays('2024-03-04', day);
+    return record({ date, datetime: `${date} 10:00:00`, money: value(day), ...overrides(day) });
+  });
+
+describe('lowRevenueDays', () => {
+  it('flags a day far below the norm of its weekday', () => {
+    const data = daily(42, day => (day === 35 ? 30 : day % 7 === 5 ? 200 : 100));
+    expect(lowRevenueDays(data)).toEqual([
+      expect.objectContaining({ kind: 'lowRevenue', date: '2024-04-08', revenue: 30, expected: 100, severity: 0.7 })
+    ]);
+  });
+
+  it('compares weekdays only with themselves', () => {
+    // Saturdays earn twice as much, so an ordinary weekday is not an anomaly next to them.
+    expect(lowRevenueDays(daily(42, day => (day % 7 === 5 ? 200 : 100)))).toEqual([]);
+  });
+});
+
+describe('priceChanges', () => {
+  it('reports each new price once with the price charged before', () => {
+    const data = [
+      record({ datetime: '2024-03-01 10:00:00', money: 38.7 }),
+      record({ date: '2024-03-02', datetime: '2024-03-02 10:00:00', money: 40 }),
+      record({ date: '2024-03-03', datetime: '2024-03-03 10:00:00', money: 38.7 }),
+      record({ date: '2024-03-04', datetime: '2024-03-04 10:00:00', money: 40 })
+    ];
+    expect(priceChanges(data, productOf, currencyOf)).toEqual([
+      expect.objectContaining({ kind: 'priceChange', date: '2024-03-02', product: 'Latte', price: 40, previousPrice: 38.7, currency: 'PLN' })
+    ]);
+  });
+
+  it('compares prices within each source only', () => {
+    const data = [
+      record({ datetime: '2024-03-01 10:00:00', money: 38.7, source: 'pln' }),
+      record({ date: '2024-03-02', datetime: '2024-03-02 10:00:00', money: 420, source: 'uah' }),
+      record({ date: '2024-03-03', datetime: '2024-03-03 10:00:00', money: 38.7, source: 'pln' })
+    ];
+    expect(priceChanges(data, productOf, currencyOf)).toEqual([]);
+  });
+
+  it('finds the Latte price change in the fixture', () => {
+    const latte = priceChanges(loadFixture('index_1.csv'), productOf, currencyOf).find(insight => insight.id.startsWith('priceChange:Latte'));
+    expect(latte).toMatchObject({ date: '2024-03-02', price: 40, previousPrice: 38.7, link: { product: 'Latte' } });
+  });
+});
+
+describe('stoppedProducts', () => {
+  it('flags a regularly sold product that has gone quiet', () => {
+    const data = [
+      ...daily(40, () => 100),
+      ...daily(20, () => 10, () => ({ coffee_name: 'Mocha' }))
+    ];
+    expect(stoppedProducts(data, productOf)).toEqual([
+      expect.objectContaining({ kind: 'stoppedSelling', product: 'Mocha', date: '2024-03-23', days: 20 })
+    ]);
+  });
+
+  it('ignores products sold too rarely to tell', () => {
+    const data = [...daily(40, () => 100), ...daily(5, () => 10, () => ({ coffee_name: 'Mocha' }))];
+    expect(stoppedProducts(data, productOf)).toEqual([]);
+  });
+});
+
+describe('paymentShifts', () => {
+  it('flags weeks whose cash share departs from the overall share', () => {
+    const data = daily(56, () => 10, day => ({ cash_type: day >= 49 && day % 2 === 0 ? 'cash' : 'card' })).flatMap(sale =>
+      Array.from({ length: 10 }, () => sale)
+    );
+    expect(paymentShifts(data)).toEqual([
+      expect.objectContaining({ kind: 'paymentShift', date: '2024-04-22', link: { from: '2024-04-22', to: '2024-04-28', payment: 'cash' } })
+    ]);
+  });
+});
+
+describe('evaluateRules', () => {
+  const data = daily(3, day => [50, 150, 100][day], day => ({ cash_type: day === 2 ? 'cash' : 'card' }));
+
+  it('reports every day breaking a rule', () => {
+    const insights = evaluateRules(data, [
+      { id: 'low', metric: 'dailyRevenue', operator: 'below', threshold: 100 },
+      { id: 'cash', metric: 'cashShare', operator: 'above', threshold: 30 }
+    ]);
+    expect(insights.map(insight => insight.id)).toEqual(['rule:low:2024-03-04', 'rule:cash:2024-03-06']);
+    expect(insights[0]).toMatchObject({ value: 50, severity: 0.75 });
+  });
+
+  it('counts orders per day', () => {
+    expect(evaluateRules(data, [{ id: 'busy', metric: 'dailyOrders', operator: 'above', threshold: 1 }])).toEqual([]);
+  });
+});
+
+describe('detectInsights', () => {
+  it('ranks broken rules and anomalies together by severity', () => {
+    // Four sales a day, but only one on 2024-04-08.
+    const data = daily(42, () => 25).flatMap((sale, day) => (day === 35 ? [sale] : [sale, sale, sale, sale]));
+    const insights = detectInsights(data, data, productOf, currencyOf, [{ id: 'low', metric: 'dailyRevenue', operator: 'below', threshold: 60 }]);
+    expect(insights.map(insight => insight.kind)).toEqual(['rule', 'lowRevenue']);
+    expect(insights.map(insight => insight.severity)).toEqual([...insights.map(insight => insight.severity)].sort((a, b) => b - a));
+  });
+});
@@ -0,0 +1,258 @@
+import { addDays, dayOfWeek, daysBetween, startOfWeek } from './dates';
+import { dailySeries } from './forecast';
+import type { SalesRecord } from '../types';
+
+// A day is flagged when its revenue is at least half below the median of the same weekday
+// over the previous eight weeks, once four such weekdays are known.
+const LOW_REVENUE_DROP = 0.5;
+const WEEKDAY_NORM_WEEKS = 8;
+const MIN_WEEKDAY_NORM = 4;
+
+// A product counts as no longer sold after a silence of three typical gaps between its
+// selling days, and never less than two weeks; rarely sold products are not tracked.
+const STOPPED_GAPS = 3;
+const STOPPED_MIN_DAYS = 14;
+const STOPPED_MIN_SALES = 10;
+
+// Weeks whose cash share differs from the overall share by at least 10 percentage points.
+const PAYMENT_SHIFT = 10;
+const PAYMENT_MIN_ORDERS = 30;
+
+export type AlertMetric = 'dailyRevenue' | 'dailyOrders' | 'cashShare';
+export type AlertOperator = 'below' | 'above';
+
+export const ALERT_METRICS: AlertMetric[] = ['dailyRevenue', 'dailyOrders', 'cashShare'];
+export const ALERT_OPERATORS: AlertOperator[] = ['below', 'above'];
+
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  // Display currency for revenue, a percentage (0-100) for the cash share.
+  threshold: number;
+}
+
+// Where the affected data is: an inclusive date range, optionally narrowed to a product or payment type.
+export interface InsightLink {
+  from: string;
+  to: string;
+  product?: string;
+  payment?: string;
+}
+
+interface InsightBase {
+  id: string;
+  // 0-1, used to rank insights of all kinds in one list.
+  severity: number;
+  link: InsightLink;
+}
+
+export type Insight = InsightBase & (
+  | { kind: 'lowRevenue'; date: string; revenue: number; expected: number }
+  | { kind: 'priceChange'; date: string; product: string; price: number; previousPrice: number; currency: string }
+  | { kind: 'stoppedSelling'; date: string; product: string; days: number }
+  | { kind: 'paymentShift'; date: string; cashShare: number; expected: number }
+  | { kind: 'rule'; date: string; rule: AlertRule; value: number }
+);
+
+export type InsightKind = Insight['kind'];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const lastDateOf = (data: SalesRecord[]) => data.reduce((last, record) => (record.date > last ? record.date : last), '');
+
+export const lowRevenueDays = (data: SalesRecord[]): Insight[] => {
+  const series = dailySeries(data, record => record.money);
+  return series.flatMap((day, index) => {
+    const previous = series
+      .slice(Math.max(0, index - WEEKDAY_NORM_WEEKS * 7), index)
+      .filter(candidate => dayOfWeek(candidate.date) === dayOfWeek(day.date))
+      .map(candidate => candidate.value);
+    if (previous.length < MIN_WEEKDAY_NORM) return [];
+    const expected = median(previous);
+    if (expected <= 0 || day.value > expected * (1 - LOW_REVENUE_DROP)) return [];
+    return [{
+      id: `lowRevenue:${day.date}`,
+      kind: 'lowRevenue' as const,
+      severity: 1 - day.value / expected,
+      link: { from: day.date, to: day.date },
+      date: day.date,
+      revenue: day.value,
+      expected
+    }];
+  });
+};
+
+// Reports each price of a product the first time it is charged, against the price charged
+// just before; prices alternating between known levels are not reported again. Expects
+// amounts in the currency of each source: converted prices would move with every new
+// exchange rate, so each source's prices are tracked separately.
+export const priceChanges = (
+  data: SalesRecord[],
+  productOf: (record: SalesRecord) => string,
+  currencyOf: (record: SalesRecord) => string
+): Insight[] => {
+  const sales = [...data].sort((a, b) => a.datetime.localeCompare(b.datetime));
+  const seen: Record<string, Set<number>> = {};
+  const lastPrice: Record<string, number> = {};
+  const insights: Insight[] = [];
+  sales.forEach(record => {
+    const product = productOf(record);
+    const key = `${record.source}|${product}`;
+    const price = Math.round(record.money * 100) / 100;
+    if (!seen[key]) {
+      seen[key] = new Set();
+    } else if (!seen[key].has(price)) {
+      const previousPrice = lastPrice[key];
+      insights.push({
+        id: `priceChange:${product}:${record.source}:${price}`,
+        kind: 'priceChange',
+        severity: Math.min(1, (Math.abs(price - previousPrice) / previousPrice) * 10),
+        link: { from: record.date, to: record.date, product },
+        date: record.date,
+        product,
+        price,
+        previousPrice,
+        currency: currencyOf(record)
+      });
+    }
+    seen[key].add(price);
+    lastPrice[key] = price;
+  });
+  return insights;
+};
+
+export const stoppedProducts = (data: SalesRecord[], productOf: (record: SalesRecord) => string): Insight[] => {
+  const lastDate = lastDateOf(data);
+  const byProduct = data.reduce((acc, record) => {
+    const product = productOf(record);
+    if (!acc[product]) {
+      acc[product] = { sales: 0, dates: new Set<string>() };
+    }
+    acc[product].sales += 1;
+    acc[product].dates.add(record.date);
+    return acc;
+  }, {} as Record<string, { sales: number; dates: Set<string> }>);
+
+  return Object.entries(byProduct).flatMap(([product, { sales, dates }]) => {
+    if (sales < STOPPED_MIN_SALES) return [];
+    const sorted = Array.from(dates).sort();
+    const lastSale = sorted[sorted.length - 1];
+    const days = daysBetween(lastSale, lastDate);
+    const typicalGap = sorted.length > 1 ? daysBetween(sorted[0], lastSale) / (sorted.length - 1) : 0;
+    const threshold = Math.max(STOPPED_MIN_DAYS, STOPPED_GAPS * typicalGap);
+    if (days < threshold) return [];
+    return [{
+      id: `stoppedSelling:${product}`,
+      kind: 'stoppedSelling' as const,
+      severity: Math.min(1, (0.5 * days) / threshold),
+      link: { from: addDays(lastSale, -(STOPPED_MIN_DAYS - 1)), to: lastSale, product },
+      date: lastSale,
+      product,
+      days
+    }];
+  });
+};
+
+const cashShare = (records: { cash_type: string }[]) =>
+  records.length > 0 ? (records.filter(record => record.cash_type === 'cash').length / records.length) * 100 : 0;
+
+export const paymentShifts = (data: SalesRecord[]): Insight[] => {
+  const expected = cashShare(data);
+  const byWeek = data.reduce((acc, record) => {
+    const week = startOfWeek(record.date);
+    if (!acc[week]) {
+      acc[week] = [];
+    }
+    acc[week].push(record);
+    return acc;
+  }, {} as Record<string, SalesRecord[]>);
+
+  return Object.entries(byWeek)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([week, records]) => {
+      const share = cashShare(records);
+      if (records.length < PAYMENT_MIN_ORDERS || Math.abs(share - expected) < PAYMENT_SHIFT) return [];
+      return [{
+        id: `paymentShift:${week}`,
+        kind: 'paymentShift' as const,
+        severity: Math.min(1, Math.abs(share - expected) / 50),
+        link: { from: week, to: addDays(week, 6), payment: 'cash' },
+        date: week,
+        cashShare: share,
+        expected
+      }];
+    });
+};
+
+// Rules are checked against every day with sales.
+export const evaluateRules = (data: SalesRecord[], rules: AlertRule[]): Insight[] => {
+  if (rules.length === 0) return [];
+  const byDay = data.reduce((acc, record) => {
+    if (!acc[record.date]) {
+      acc[record.date] = [];
+    }
+    acc[record.date].push(record);
+    return acc;
+  }, {} as Record<string, SalesRecord[]>);
+  const days = Object.keys(byDay).sort();
+
+  return rules.flatMap(rule =>
+    days.flatMap(date => {
+      const records = byDay[date];
+      const value =
+        rule.metric === 'dailyRevenue' ? records.reduce((sum, record) => sum + record.money, 0) :
+        rule.metric === 'dailyOrders' ? records.length :
+        cashShare(records);
+      const matches = rule.operator === 'below' ? value < rule.threshold : value > rule.threshold;
+      if (!matches) return [];
+      // Broken rules rank above the detected anomalies, further from the threshold first.
+      const distance = rule.threshold !== 0 ? Math.abs(value - rule.threshold) / Math.abs(rule.threshold) : 1;
+      return [{
+        id: `rule:${rule.id}:${date}`,
+        kind: 'rule' as const,
+        severity: 0.5 + 0.5 * Math.min(1, distance),
+        link: { from: date, to: date, ...(rule.metric === 'cashShare' ? { payment: 'cash' } : {}) },
+        date,
+        rule,
+        value
+      }];
+    })
+  );
+};
+
+// Every detector and rule in one list, the most severe first and the most recent among equals.
+// Prices are checked on `sourceData`, the same sales before currency conversion.
+export const detectInsights = (
+  data: SalesRecord[],
+  sourceData: SalesRecord[],
+  productOf: (record: SalesRecord) => string,
+  currencyOf: (record: SalesRecord) => string,
+  rules: AlertRule[]
+): Insight[] =>
+  [
+    ...evaluateRules(data, rules),
+    ...lowRevenueDays(data),
+    ...priceChanges(sourceData, productOf, currencyOf),
+    ...stoppedProducts(data, productOf),
+    ...paymentShifts(data)
+  ].sort((a, b) => b.severity - a.severity || b.date.localeCompare(a.date));
+
+const ALERT_RULES_KEY = 'salesDashboard.alertRules';
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const stored = localStorage.getItem(ALERT_RULES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rules));
+};
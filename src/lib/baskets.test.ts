@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture, record } from '../test/fixtures';
+import { analyseBaskets, detectBaskets, productAffinity, summariseBaskets } from './baskets';
+
+const productOf = (sale: { coffee_name: string }) => sale.coffee_name;
+
+describe('detectBaskets', () => {
+  it('groups purchases of one card that follow each other within the gap', () => {
+    const data = [
+      record({ datetime: '2024-03-01 12:19:22', card: 'A' }),
+      record({ datetime: '2024-03-01 12:23:00', card: 'A' }),
+      record({ datetime: '2024-03-01 12:27:30', card: 'A' }),
+      record({ datetime: '2024-03-01 12:40:00', card: 'A' }),
+      record({ datetime: '2024-03-01 12:20:00', card: 'B' })
+    ];
+    expect(detectBaskets(data, 5).map(basket => [basket.owner, basket.records.length])).toEqual([
+      ['card:A', 3],
+      ['card:A', 1],
+      ['card:B', 1]
+    ]);
+  });
+
+  it('groups anonymous sales by till and keeps tills apart', () => {
+    const data = [
+      record({ datetime: '2024-03-01 10:00:00', card: '', cash_type: 'cash', source: 'till-1' }),
+      record({ datetime: '2024-03-01 10:02:00', card: '', cash_type: 'cash', source: 'till-1' }),
+      record({ datetime: '2024-03-01 10:01:00', card: '', cash_type: 'cash', source: 'till-2' })
+    ];
+    expect(detectBaskets(data, 5).map(basket => [basket.owner, basket.records.length])).toEqual([
+      ['till:till-1', 2],
+      ['till:till-2', 1]
+    ]);
+  });
+
+  it('joins baskets across midnight', () => {
+    const data = [
+      record({ datetime: '2024-03-01 23:58:00', card: 'A' }),
+      record({ datetime: '2024-03-02 00:01:00', card: 'A' })
+    ];
+    expect(detectBaskets(data, 5)).toHaveLength(1);
+  });
+
+  it('merges the two Hot Chocolates bought a minute apart in the fixture', () => {
+    const fixture = loadFixture('index_1.csv');
+    const basket = detectBaskets(fixture, 5).find(candidate =>
+      candidate.records.some(sale => sale.datetime.startsWith('2024-03-01 12:19'))
+    );
+    expect(basket?.records.map(sale => sale.coffee_name)).toEqual(['Hot Chocolate', 'Hot Chocolate']);
+    expect(basket?.value).toBeCloseTo(77.4);
+  });
+});
+
+describe('summariseBaskets', () => {
+  it('reports basket size, value and the share of multi-item baskets', () => {
+    const data = [
+      record({ datetime: '2024-03-01 10:00:00', card: 'A', money: 10 }),
+      record({ datetime: '2024-03-01 10:01:00', card: 'A', money: 20 }),
+      record({ datetime: '2024-03-01 10:00:00', card: 'B', money: 30 })
+    ];
+    expect(summariseBaskets(detectBaskets(data, 5))).toEqual({
+      baskets: 2,
+      avgBasketSize: 1.5,
+      avgBasketValue: 30,
+      multiItemShare: 50
+    });
+  });
+
+  it('returns zeros without baskets', () => {
+    expect(summariseBaskets([])).toEqual({ baskets: 0, avgBasketSize: 0, avgBasketValue: 0, multiItemShare: 0 });
+  });
+});
+
+describe('productAffinity', () => {
+  const sale = (card: string, minute: number, coffee_name: string) =>
+    record({ card, coffee_name, datetime: `2024-03-01 10:${String(minute).padStart(2, '0')}:00` });
+
+  // Baskets: {Latte, Cookie}, {Latte, Cookie}, {Latte}, {Mocha}
+  const baskets = detectBaskets([
+    sale('A', 0, 'Latte'), sale('A', 1, 'Cookie'), sale('A', 2, 'Latte'),
+    sale('B', 0, 'Latte'), sale('B', 1, 'Cookie'),
+    sale('C', 0, 'Latte'),
+    sale('D', 0, 'Mocha')
+  ], 5);
+  const affinity = productAffinity(baskets, productOf);
+
+  it('counts co-purchases once per basket', () => {
+    expect(affinity.products).toEqual(['Latte', 'Cookie', 'Mocha']);
+    expect(affinity.matrix).toEqual([
+      [3, 2, 0],
+      [2, 2, 0],
+      [0, 0, 1]
+    ]);
+  });
+
+  it('derives support, confidence and lift for both directions', () => {
+    expect(affinity.rules).toEqual([
+      { antecedent: 'Latte', consequent: 'Cookie', baskets: 2, support: 0.5, confidence: 2 / 3, lift: (2 / 3) / 0.5 },
+      { antecedent: 'Cookie', consequent: 'Latte', baskets: 2, support: 0.5, confidence: 1, lift: 1 / 0.75 }
+    ]);
+  });
+});
+
+describe('analyseBaskets', () => {
+  it('summarises the baskets and their product affinity for one gap', () => {
+    const fixture = loadFixture('index_1.csv');
+    const baskets = detectBaskets(fixture, 10);
+    expect(analyseBaskets(fixture, 10, productOf)).toEqual({
+      summary: summariseBaskets(baskets),
+      affinity: productAffinity(baskets, productOf)
+    });
+  });
+});
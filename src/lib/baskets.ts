@@ -0,0 +1,161 @@
+import { isIdentified } from './customers';
+import { wallClockMinutes } from './dates';
+import type { SalesRecord } from '../types';
+
+export const DEFAULT_BASKET_GAP = 5;
+
+export interface Basket {
+  // `card:<id>` for card customers, `till:<source id>` for anonymous (cash) sales,
+  // since each imported file is one till.
+  owner: string;
+  records: SalesRecord[];
+  value: number;
+}
+
+export interface BasketSummary {
+  baskets: number;
+  avgBasketSize: number;
+  avgBasketValue: number;
+  // Share (0-100) of baskets with more than one item.
+  multiItemShare: number;
+}
+
+export type AffinityRule = {
+  antecedent: string;
+  consequent: string;
+  baskets: number;
+  // Share of all baskets containing both products.
+  support: number;
+  // Share of baskets with the antecedent that also contain the consequent.
+  confidence: number;
+  // How much more often the pair is bought together than if the products were independent.
+  lift: number;
+};
+
+export interface ProductAffinity {
+  // Ordered by the number of baskets containing the product.
+  products: string[];
+  // matrix[i][j]: baskets containing products i and j; the diagonal counts baskets containing product i.
+  matrix: number[][];
+  rules: AffinityRule[];
+}
+
+const basketOwner = (record: SalesRecord) => (isIdentified(record) ? `card:${record.card}` : `till:${record.source}`);
+
+// Purchases of one owner join the current basket while each follows the previous one
+// within `gapMinutes`, so a chain of quick purchases forms a single basket.
+export const detectBaskets = (data: SalesRecord[], gapMinutes: number): Basket[] => {
+  const byOwner = data.reduce((acc, record) => {
+    const owner = basketOwner(record);
+    if (!acc[owner]) {
+      acc[owner] = [];
+    }
+    acc[owner].push({ record, minute: wallClockMinutes(record.datetime) });
+    return acc;
+  }, {} as Record<string, { record: SalesRecord; minute: number }[]>);
+
+  const baskets: Basket[] = [];
+  Object.entries(byOwner).forEach(([owner, purchases]) => {
+    purchases.sort((a, b) => a.minute - b.minute);
+    let current: Basket | null = null;
+    let previousMinute = 0;
+    purchases.forEach(({ record, minute }) => {
+      if (!current || minute - previousMinute > gapMinutes) {
+        current = { owner, records: [], value: 0 };
+        baskets.push(current);
+      }
+      current.records.push(record);
+      current.value += record.money;
+      previousMinute = minute;
+    });
+  });
+  return baskets;
+};
+
+export const summariseBaskets = (baskets: Basket[]): BasketSummary => {
+  const items = baskets.reduce((sum, basket) => sum + basket.records.length, 0);
+  const value = baskets.reduce((sum, basket) => sum + basket.value, 0);
+  const multiItem = baskets.filter(basket => basket.records.length > 1).length;
+  return {
+    baskets: baskets.length,
+    avgBasketSize: baskets.length > 0 ? items / baskets.length : 0,
+    avgBasketValue: baskets.length > 0 ? value / baskets.length : 0,
+    multiItemShare: baskets.length > 0 ? (multiItem / baskets.length) * 100 : 0
+  };
+};
+
+// A product bought twice in one basket counts once, as usual for association rules.
+export const productAffinity = (
+  baskets: Basket[],
+  productOf: (record: SalesRecord) => string
+): ProductAffinity => {
+  const contents = baskets.map(basket => Array.from(new Set(basket.records.map(productOf))));
+  const counts = contents.reduce((acc, products) => {
+    products.forEach(product => {
+      acc[product] = (acc[product] || 0) + 1;
+    });
+    return acc;
+  }, {} as Record<string, number>);
+
+  const products = Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+  const position = Object.fromEntries(products.map((product, index) => [product, index]));
+  const matrix = products.map(() => products.map(() => 0));
+  contents.forEach(basket => {
+    basket.forEach(first => {
+      basket.forEach(second => {
+        matrix[position[first]][position[second]] += 1;
+      });
+    });
+  });
+
+  const total = baskets.length;
+  const rules: AffinityRule[] = [];
+  products.forEach((antecedent, i) => {
+    products.forEach((consequent, j) => {
+      const together = matrix[i][j];
+      if (i === j || together === 0) return;
+      const confidence = together / counts[antecedent];
+      rules.push({
+        antecedent,
+        consequent,
+        baskets: together,
+        support: together / total,
+        confidence,
+        lift: confidence / (counts[consequent] / total)
+      });
+    });
+  });
+  rules.sort((a, b) => b.lift - a.lift || b.baskets - a.baskets);
+
+  return { products, matrix, rules };
+};
+
+// What the basket panel shows; the baskets themselves stay where they were detected.
+export interface BasketAnalysis {
+  summary: BasketSummary;
+  affinity: ProductAffinity;
+}
+
+export const analyseBaskets = (
+  data: SalesRecord[],
+  gapMinutes: number,
+  productOf: (record: SalesRecord) => string
+): BasketAnalysis => {
+  const baskets = detectBaskets(data, gapMinutes);
+  return { summary: summariseBaskets(baskets), affinity: productAffinity(baskets, productOf) };
+};
+
+const BASKET_GAP_KEY = 'salesDashboard.basketGap';
+
+export const loadBasketGap = () => {
+  try {
+    const stored = localStorage.getItem(BASKET_GAP_KEY);
+    return stored !== null && Number(stored) >= 0 ? Number(stored) : DEFAULT_BASKET_GAP;
+  } catch {
+    return DEFAULT_BASKET_GAP;
+  }
+};
+
+export const saveBasketGap = (minutes: number) => {
+  localStorage.setItem(BASKET_GAP_KEY, String(minutes));
+};
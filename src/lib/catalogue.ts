@@ -0,0 +1,82 @@
+export type ProductCategory = 'espresso' | 'chocolate' | 'tea' | 'alcohol' | 'other';
+
+export type ProductGrouping = 'product' | 'category';
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = ['espresso', 'chocolate', 'tea', 'alcohol', 'other'];
+
+export interface ProductCatalogue {
+  // Normalised raw name -> canonical product name.
+  aliases: Record<string, string>;
+  // Normalised canonical name -> category chosen by the user.
+  categories: Record<string, ProductCategory>;
+}
+
+export interface CataloguedProduct {
+  product: string;
+  category: ProductCategory;
+}
+
+export const EMPTY_CATALOGUE: ProductCatalogue = { aliases: {}, categories: {} };
+
+// Ordered: the first matching rule wins, so "Caramel with Irish whiskey" is alcohol-based
+// and "Chocolate with coffee" is chocolate rather than espresso.
+const CATEGORY_RULES: [RegExp, ProductCategory][] = [
+  [/irish|whisk|rum|liqueur|baileys|amaretto|cognac/, 'alcohol'],
+  [/chocolate|cocoa|czekolad|kakao/, 'chocolate'],
+  [/\btea\b|herbat|matcha|chai/, 'tea'],
+  [/espresso|americano|latte|cappuccino|cortado|ristretto|macchiato|mocha|flat white|coffee|kaw|caramel|vanilla/, 'espresso']
+];
+
+export const normaliseProductName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const defaultProductName = (name: string) => {
+  const normalised = normaliseProductName(name);
+  return normalised.charAt(0).toUpperCase() + normalised.slice(1);
+};
+
+export const guessCategory = (product: string): ProductCategory => {
+  const normalised = normaliseProductName(product);
+  return CATEGORY_RULES.find(([pattern]) => pattern.test(normalised))?.[1] ?? 'other';
+};
+
+export const catalogueProduct = (rawName: string, catalogue: ProductCatalogue): CataloguedProduct => {
+  const product = catalogue.aliases[normaliseProductName(rawName)]?.trim() || defaultProductName(rawName);
+  return {
+    product,
+    category: catalogue.categories[normaliseProductName(product)] ?? guessCategory(product)
+  };
+};
+
+// Resolving goes through a per-catalogue cache because every record is looked up on each aggregation.
+export const createProductResolver = (catalogue: ProductCatalogue) => {
+  const cache = new Map<string, CataloguedProduct>();
+  return (rawName: string) => {
+    let resolved = cache.get(rawName);
+    if (!resolved) {
+      resolved = catalogueProduct(rawName, catalogue);
+      cache.set(rawName, resolved);
+    }
+    return resolved;
+  };
+};
+
+export const productLabel = (
+  resolved: CataloguedProduct,
+  grouping: ProductGrouping,
+  categoryLabel: (category: ProductCategory) => string
+) => (grouping === 'category' ? categoryLabel(resolved.category) : resolved.product);
+
+const CATALOGUE_KEY = 'salesDashboard.productCatalogue';
+
+export const loadCatalogue = (): ProductCatalogue => {
+  try {
+    const stored = localStorage.getItem(CATALOGUE_KEY);
+    return stored ? { ...EMPTY_CATALOGUE, ...JSON.parse(stored) } : EMPTY_CATALOGUE;
+  } catch {
+    return EMPTY_CATALOGUE;
+  }
+};
+
+export const saveCatalogue = (catalogue: ProductCatalogue) => {
+  localStorage.setItem(CATALOGUE_KEY, JSON.stringify(catalogue));
+};
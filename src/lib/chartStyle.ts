@@ -0,0 +1,10 @@
+// Shared look of the Recharts charts.
+
+export const TOOLTIP_STYLE = {
+  backgroundColor: 'rgba(255, 255, 255, 0.95)',
+  border: 'none',
+  borderRadius: '12px',
+  boxShadow: '0 10px 40px rgba(0, 0, 0, 0.1)'
+};
+
+export const PIE_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#0088fe', '#00c49f'];
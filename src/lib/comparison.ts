@@ -0,0 +1,79 @@
+import { addDays, addYears, daysBetween } from './dates';
+import type { ResolvedDateRange } from './dateRange';
+
+export type ComparisonMode = 'none' | 'previous' | 'lastYear' | 'custom';
+
+export interface Comparison {
+  mode: ComparisonMode;
+  // Only read for the custom mode.
+  from: string | null;
+  to: string | null;
+}
+
+export interface Delta {
+  absolute: number;
+  // null when the comparison value is zero and a percentage would be meaningless.
+  percent: number | null;
+}
+
+export const COMPARISON_MODES: ComparisonMode[] = ['none', 'previous', 'lastYear', 'custom'];
+
+export const DEFAULT_COMPARISON: Comparison = { mode: 'none', from: null, to: null };
+
+// Open-ended bounds of the current range are closed with the first/last day in the data,
+// so "previous period" has a concrete length even for the whole-history preset.
+export const resolveComparisonRange = (
+  comparison: Comparison,
+  range: ResolvedDateRange,
+  bounds: ResolvedDateRange
+): ResolvedDateRange | null => {
+  if (comparison.mode === 'none') return null;
+  if (comparison.mode === 'custom') {
+    return comparison.from || comparison.to ? { from: comparison.from, to: comparison.to } : null;
+  }
+
+  const from = range.from ?? bounds.from;
+  const to = range.to ?? bounds.to;
+  if (!from || !to) return null;
+
+  if (comparison.mode === 'lastYear') {
+    return { from: addYears(from, -1), to: addYears(to, -1) };
+  }
+
+  const length = daysBetween(from, to) + 1;
+  return { from: addDays(from, -length), to: addDays(from, -1) };
+};
+
+export const computeDelta = (current: number, previous: number): Delta => ({
+  absolute: current - previous,
+  percent: previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100
+});
+
+export interface OverlayRow<T, K extends keyof T> {
+  key: T[K];
+  current?: T;
+  comparison?: T;
+}
+
+// Lines up chart rows of the current and comparison period by a shared key. Rows that only
+// exist in the comparison period are appended so that e.g. a discontinued product stays visible.
+export const overlayComparison = <T, K extends keyof T>(
+  current: T[],
+  comparison: T[] | null,
+  key: K,
+  compare?: (a: T[K], b: T[K]) => number
+): OverlayRow<T, K>[] => {
+  const rows = new Map<T[K], OverlayRow<T, K>>();
+  current.forEach(item => rows.set(item[key], { key: item[key], current: item }));
+  comparison?.forEach(item => {
+    const row = rows.get(item[key]);
+    if (row) {
+      row.comparison = item;
+    } else {
+      rows.set(item[key], { key: item[key], comparison: item });
+    }
+  });
+
+  const result = Array.from(rows.values());
+  return compare ? result.sort((a, b) => compare(a.key, b.key)) : result;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture, record } from '../test/fixtures';
+import { computeAnalytics } from './analytics';
+import { createProductResolver, EMPTY_CATALOGUE } from './catalogue';
+import {
+  applyCrossFilter,
+  cardFrequencies,
+  crossFilterFromSearch,
+  crossFilterToSearch,
+  EMPTY_CROSS_FILTER,
+  toggleCrossFilter
+} from './crossFilter';
+
+const resolveProduct = createProductResolver(EMPTY_CATALOGUE);
+
+describe('toggleCrossFilter', () => {
+  it('adds a value and removes it on the second click', () => {
+    const selected = toggleCrossFilter(EMPTY_CROSS_FILTER, 'product', 'Latte');
+    expect(selected.product).toEqual(['Latte']);
+    expect(toggleCrossFilter(selected, 'product', 'Latte')).toEqual(EMPTY_CROSS_FILTER);
+  });
+});
+
+describe('applyCrossFilter', () => {
+  const data = [
+    record({ coffee_name: 'Latte', cash_type: 'card', hour: 10, card: 'A' }),
+    record({ coffee_name: 'Latte', cash_type: 'cash', hour: 10, card: '' }),
+    record({ coffee_name: 'Mocha', cash_type: 'card', hour: 11, card: 'A' }),
+    record({ coffee_name: 'Hot Chocolate', cash_type: 'card', hour: 10, card: 'B' })
+  ];
+  const context = { resolveProduct, frequencies: cardFrequencies(data) };
+
+  it('keeps alternatives of one dimension and narrows across dimensions', () => {
+    const filter = { ...EMPTY_CROSS_FILTER, product: ['Latte', 'Mocha'], payment: ['card'] };
+    expect(applyCrossFilter(data, filter, context)).toEqual([data[0], data[2]]);
+  });
+
+  it('filters by category and hour', () => {
+    const filter = { ...EMPTY_CROSS_FILTER, category: ['chocolate'], hour: ['10'] };
+    expect(applyCrossFilter(data, filter, context)).toEqual([data[3]]);
+  });
+
+  it('keeps only card customers in the selected frequency bucket', () => {
+    const filter = { ...EMPTY_CROSS_FILTER, frequency: ['2-3'] };
+    expect(applyCrossFilter(data, filter, context)).toEqual([data[0], data[2]]);
+  });
+
+  it('narrows the fixture analytics to the selected payment type', () => {
+    const fixture = loadFixture('index_1.csv');
+    const filter = { ...EMPTY_CROSS_FILTER, payment: ['card'] };
+    const analytics = computeAnalytics(applyCrossFilter(fixture, filter, { resolveProduct, frequencies: cardFrequencies(fixture) }));
+    const cardPayments = computeAnalytics(fixture)?.paymentChartData.find(payment => payment.method === 'card');
+
+    expect(analytics?.totalOrders).toBe(cardPayments?.count);
+    expect(analytics?.paymentChartData.map(payment => payment.method)).toEqual(['card']);
+  });
+});
+
+describe('URL state', () => {
+  it('round-trips through the query string and keeps unrelated parameters', () => {
+    const filter = { ...EMPTY_CROSS_FILTER, product: ['Latte', 'Flat White'], hour: ['10'], frequency: ['6+'] };
+    const search = crossFilterToSearch(filter, '?lang=pl');
+
+    expect(search).toBe('?lang=pl&product=Latte&product=Flat+White&hour=10&frequency=6%2B');
+    expect(crossFilterFromSearch(search)).toEqual(filter);
+  });
+
+  it('drops values that cannot be selected on a chart', () => {
+    expect(crossFilterFromSearch('?hour=25&hour=7&category=coffee&frequency=9&product=')).toEqual({
+      ...EMPTY_CROSS_FILTER,
+      hour: ['7']
+    });
+  });
+
+  it('returns an empty query for an empty filter', () => {
+    expect(crossFilterToSearch(EMPTY_CROSS_FILTER, '?product=Latte')).toBe('');
+  });
+});
@@ -0,0 +1,93 @@
+import { FREQUENCY_BUCKETS, frequencyBucket, type FrequencyBucketId } from './analytics';
+import { PRODUCT_CATEGORIES, type CataloguedProduct } from './catalogue';
+import { isIdentified } from './customers';
+import type { SalesRecord } from '../types';
+
+export type CrossFilterDimension = 'product' | 'category' | 'payment' | 'hour' | 'frequency';
+
+// Values picked on the charts. Values of one dimension are alternatives, dimensions narrow each other.
+export type CrossFilter = Record<CrossFilterDimension, string[]>;
+
+export const CROSS_FILTER_DIMENSIONS: CrossFilterDimension[] = ['product', 'category', 'payment', 'hour', 'frequency'];
+
+export const EMPTY_CROSS_FILTER: CrossFilter = { product: [], category: [], payment: [], hour: [], frequency: [] };
+
+export const isCrossFilterEmpty = (filter: CrossFilter) =>
+  CROSS_FILTER_DIMENSIONS.every(dimension => filter[dimension].length === 0);
+
+export const toggleCrossFilter = (filter: CrossFilter, dimension: CrossFilterDimension, value: string): CrossFilter => ({
+  ...filter,
+  [dimension]: filter[dimension].includes(value)
+    ? filter[dimension].filter(selected => selected !== value)
+    : [...filter[dimension], value]
+});
+
+// Frequency bucket of every card from its order count.
+export const frequenciesOf = (orders: Record<string, number>) =>
+  Object.fromEntries(
+    Object.entries(orders).map(([card, count]) => [card, frequencyBucket(count)])
+  ) as Record<string, FrequencyBucketId>;
+
+// Frequency bucket of every card, counted over the records the frequency chart is drawn from.
+export const cardFrequencies = (data: SalesRecord[]) =>
+  frequenciesOf(data.filter(isIdentified).reduce((acc, record) => {
+    acc[record.card] = (acc[record.card] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>));
+
+interface CrossFilterContext {
+  resolveProduct: (rawName: string) => CataloguedProduct;
+  frequencies: Record<string, FrequencyBucketId>;
+}
+
+// The fields a chart selection can narrow on, shared by records and the buckets of the analytics index.
+export type CrossFilterFields = Pick<SalesRecord, 'coffee_name' | 'cash_type' | 'hour' | 'card'>;
+
+export const createCrossFilterMatcher = (
+  filter: CrossFilter,
+  { resolveProduct, frequencies }: CrossFilterContext
+) => {
+  const { product, category, payment, hour, frequency } = filter;
+  const hours = hour.map(Number);
+
+  return (sales: CrossFilterFields) => {
+    if (product.length > 0 && !product.includes(resolveProduct(sales.coffee_name).product)) return false;
+    if (category.length > 0 && !category.includes(resolveProduct(sales.coffee_name).category)) return false;
+    if (payment.length > 0 && !payment.includes(sales.cash_type)) return false;
+    if (hours.length > 0 && !hours.includes(sales.hour)) return false;
+    if (frequency.length > 0 && !(isIdentified(sales) && frequency.includes(frequencies[sales.card]))) return false;
+    return true;
+  };
+};
+
+export const applyCrossFilter = (data: SalesRecord[], filter: CrossFilter, context: CrossFilterContext) =>
+  isCrossFilterEmpty(filter) ? data : data.filter(createCrossFilterMatcher(filter, context));
+
+const isValidValue = (dimension: CrossFilterDimension, value: string) =>
+  dimension === 'category' ? (PRODUCT_CATEGORIES as string[]).includes(value) :
+  dimension === 'hour' ? /^\d{1,2}$/.test(value) && Number(value) < 24 :
+  dimension === 'frequency' ? (FREQUENCY_BUCKETS as readonly string[]).includes(value) :
+  value !== '';
+
+// The filter is kept in the query string as repeated parameters, e.g. ?product=Latte&product=Mocha&hour=10,
+// so a filtered view can be bookmarked. Values that cannot be selected on a chart are dropped.
+export const crossFilterFromSearch = (search: string): CrossFilter => {
+  const params = new URLSearchParams(search);
+  return Object.fromEntries(
+    CROSS_FILTER_DIMENSIONS.map(dimension => [
+      dimension,
+      Array.from(new Set(params.getAll(dimension).filter(value => isValidValue(dimension, value))))
+    ])
+  ) as CrossFilter;
+};
+
+// Leaves unrelated query parameters in place.
+export const crossFilterToSearch = (filter: CrossFilter, search: string) => {
+  const params = new URLSearchParams(search);
+  CROSS_FILTER_DIMENSIONS.forEach(dimension => {
+    params.delete(dimension);
+    filter[dimension].forEach(value => params.append(dimension, value));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
@@ -0,0 +1,123 @@
+import type { ColumnMapping, Delimiter, ImportOptions, MappingResult, RawRow } from './mapping';
+import type { SalesRecord } from '../types';
+
+export interface CsvContents {
+  headers: string[];
+  rowCount: number;
+  // First rows of the file, enough to suggest import options.
+  sample: RawRow[];
+  delimiter: Delimiter;
+}
+
+export interface MappingPreview {
+  accepted: number;
+  rejected: number;
+  sample: SalesRecord[];
+}
+
+export interface ParseProgress {
+  loaded: number;
+  total: number;
+}
+
+interface MappingRequest {
+  id: number;
+  mapping: ColumnMapping;
+  options: ImportOptions;
+  source: string;
+}
+
+// Failures are reported as codes, so the wizard can explain them in the user's language.
+export type CsvErrorCode = 'noHeader' | 'parseFailed' | 'mappingFailed' | 'superseded' | 'cancelled' | 'unexpectedResponse';
+
+export class CsvImportError extends Error {
+  readonly code: CsvErrorCode;
+  // Message of the underlying parser or reader error, if any.
+  readonly detail: string;
+
+  constructor(code: CsvErrorCode, detail = '') {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'CsvImportError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+export type CsvWorkerRequest =
+  | { type: 'parse'; id: number; file: File; delimiter: Delimiter }
+  | ({ type: 'preview' } & MappingRequest)
+  | ({ type: 'map' } & MappingRequest);
+
+export type CsvWorkerResponse =
+  | ({ type: 'progress'; id: number } & ParseProgress)
+  | ({ type: 'parsed'; id: number } & CsvContents)
+  | { type: 'preview'; id: number; preview: MappingPreview }
+  | { type: 'mapped'; id: number; result: MappingResult }
+  | { type: 'error'; id: number; code: CsvErrorCode; detail?: string };
+
+export interface CsvImport {
+  read: (delimiter: Delimiter, onProgress?: (progress: ParseProgress) => void) => Promise<CsvContents>;
+  preview: (mapping: ColumnMapping, options: ImportOptions, source: string) => Promise<MappingPreview>;
+  map: (mapping: ColumnMapping, options: ImportOptions, source: string) => Promise<MappingResult>;
+  // Stops the worker immediately; pending calls are rejected.
+  cancel: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: CsvWorkerResponse) => void;
+  reject: (error: CsvImportError) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+// Parses and maps one file in a dedicated worker that streams it in chunks, so large exports
+// neither block the page nor need their raw rows copied back to it.
+export const createCsvImport = (file: File): CsvImport => {
+  const worker = new Worker(new URL('../workers/csv.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 0;
+
+  worker.onmessage = ({ data: response }: MessageEvent<CsvWorkerResponse>) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    if (response.type === 'progress') {
+      request.onProgress?.({ loaded: response.loaded, total: response.total });
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new CsvImportError(response.code, response.detail));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  const send = (request: CsvWorkerRequest, onProgress?: (progress: ParseProgress) => void) =>
+    new Promise<CsvWorkerResponse>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject, onProgress });
+      worker.postMessage(request);
+    });
+
+  return {
+    read: async (delimiter, onProgress) => {
+      const response = await send({ type: 'parse', id: nextId++, file, delimiter }, onProgress);
+      if (response.type !== 'parsed') throw new CsvImportError('unexpectedResponse');
+      const { headers, rowCount, sample } = response;
+      return { headers, rowCount, sample, delimiter: response.delimiter };
+    },
+    preview: async (mapping, options, source) => {
+      const response = await send({ type: 'preview', id: nextId++, mapping, options, source });
+      if (response.type !== 'preview') throw new CsvImportError('unexpectedResponse');
+      return response.preview;
+    },
+    map: async (mapping, options, source) => {
+      const response = await send({ type: 'map', id: nextId++, mapping, options, source });
+      if (response.type !== 'mapped') throw new CsvImportError('unexpectedResponse');
+      return response.result;
+    },
+    cancel: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new CsvImportError('cancelled')));
+      pending.clear();
+    }
+  };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { record } from '../test/fixtures';
+import { convertRecords, createRateResolver, displayCurrency, formatMoney, type ExchangeRate } from './currency';
+import type { DataSource } from '../types';
+
+const rates: ExchangeRate[] = [
+  { date: '2024-03-01', from: 'UAH', to: 'PLN', rate: 0.1 },
+  { date: '2024-04-01', from: 'UAH', to: 'PLN', rate: 0.2 },
+  { date: '2024-03-01', from: 'PLN', to: 'EUR', rate: 0.25 }
+];
+
+describe('createRateResolver', () => {
+  const rateOf = createRateResolver(rates);
+
+  it('uses the latest rate on or before the date', () => {
+    expect(rateOf('UAH', 'PLN', '2024-03-31')).toBe(0.1);
+    expect(rateOf('UAH', 'PLN', '2024-04-01')).toBe(0.2);
+    expect(rateOf('UAH', 'PLN', '2025-01-01')).toBe(0.2);
+  });
+
+  it('falls back to the first rate for earlier dates', () => {
+    expect(rateOf('UAH', 'PLN', '2024-01-01')).toBe(0.1);
+  });
+
+  it('inverts a rate entered the other way round', () => {
+    expect(rateOf('EUR', 'PLN', '2024-03-15')).toBe(4);
+  });
+
+  it('returns 1 for the same currency and null for an unknown pair', () => {
+    expect(rateOf('PLN', 'PLN', '2024-03-15')).toBe(1);
+    expect(rateOf('USD', 'PLN', '2024-03-15')).toBeNull();
+  });
+});
+
+describe('convertRecords', () => {
+  const records = [
+    record({ source: 'kyiv', date: '2024-03-10', money: 100 }),
+    record({ source: 'kyiv', date: '2024-04-10', money: 100 }),
+    record({ source: 'warsaw', date: '2024-04-10', money: 12 }),
+    record({ source: 'berlin', date: '2024-04-10', money: 5 })
+  ];
+  const currencies: Record<string, string> = { kyiv: 'UAH', warsaw: 'PLN', berlin: 'USD' };
+  const currencyOf = (item: typeof records[number]) => currencies[item.source];
+
+  it('leaves amounts untouched without a reporting currency', () => {
+    expect(convertRecords(records, currencyOf, { reportingCurrency: null, rates })).toEqual({ records, missingRates: {} });
+  });
+
+  it('converts by the rate in force on each transaction date', () => {
+    const { records: converted, missingRates } = convertRecords(records, currencyOf, { reportingCurrency: 'PLN', rates });
+    expect(converted.map(item => item.money)).toEqual([10, 20, 12]);
+    expect(missingRates).toEqual({ USD: 1 });
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats through Intl.NumberFormat for the given locale', () => {
+    expect(formatMoney(1234.5, 'USD', 'en-US')).toBe('$1,234.50');
+    expect(formatMoney(1234.5, 'PLN', 'pl-PL')).toBe(new Intl.NumberFormat('pl-PL', { style: 'currency', currency: 'PLN' }).format(1234.5));
+  });
+});
+
+describe('displayCurrency', () => {
+  const source = (currency: string, enabled = true): DataSource => ({
+    id: currency,
+    name: currency,
+    records: [],
+    enabled,
+    currency,
+    report: { fileName: currency, totalRows: 0, acceptedRows: 0, rejected: [] }
+  });
+
+  it('uses the reporting currency or the one currency of the enabled sources', () => {
+    expect(displayCurrency([source('UAH'), source('PLN')], { reportingCurrency: 'EUR', rates })).toBe('EUR');
+    expect(displayCurrency([source('UAH'), source('PLN', false)], { reportingCurrency: null, rates })).toBe('UAH');
+    expect(displayCurrency([], { reportingCurrency: null, rates })).toBe('PLN');
+  });
+
+  it('asks for a reporting currency instead of picking one of mixed currencies', () => {
+    expect(displayCurrency([source('UAH'), source('PLN')], { reportingCurrency: null, rates })).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import type { DataSource, SalesRecord } from '../types';
+
+export const CURRENCIES = ['PLN', 'UAH', 'EUR', 'USD', 'GBP', 'CZK'];
+
+export const DEFAULT_CURRENCY = 'PLN';
+
+// One unit of `from` is worth `rate` units of `to` from `date` until the next rate for the pair.
+export interface ExchangeRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+export interface CurrencySettings {
+  // null keeps amounts in the currency of their source.
+  reportingCurrency: string | null;
+  rates: ExchangeRate[];
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reportingCurrency: null,
+  rates: []
+};
+
+export interface ConversionResult {
+  records: SalesRecord[];
+  // Transactions left out per source currency because no rate converts them.
+  missingRates: Record<string, number>;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const formatMoney = (value: number, currency: string, locale?: string) => {
+  const key = `${locale ?? ''}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(value);
+};
+
+export const sourceCurrencies = (sources: DataSource[]) =>
+  Array.from(new Set(sources.filter(source => source.enabled).map(source => source.currency)));
+
+// Currency the dashboard shows amounts in: the reporting currency, or the currency of the
+// enabled sources when nothing is converted. Null when those sources use different currencies,
+// since their amounts cannot be added up until a reporting currency is chosen.
+export const displayCurrency = (sources: DataSource[], settings: CurrencySettings): string | null => {
+  if (settings.reportingCurrency) return settings.reportingCurrency;
+  const currencies = sourceCurrencies(sources);
+  return currencies.length > 1 ? null : currencies[0] ?? DEFAULT_CURRENCY;
+};
+
+// Looks up the rate in force on a date, using the inverse of a rate entered the other way round.
+// Dates before the first known rate of a pair fall back to that first rate.
+export const createRateResolver = (rates: ExchangeRate[]) => {
+  const pairs = rates.reduce((acc, { date, from, to, rate }) => {
+    if (!(rate > 0)) return acc;
+    const direct = `${from}|${to}`;
+    const inverse = `${to}|${from}`;
+    acc[direct] = [...(acc[direct] ?? []), { date, rate }];
+    acc[inverse] = [...(acc[inverse] ?? []), { date, rate: 1 / rate }];
+    return acc;
+  }, {} as Record<string, { date: string; rate: number }[]>);
+  Object.values(pairs).forEach(entries => entries.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const cache = new Map<string, number | null>();
+  return (from: string, to: string, date: string) => {
+    if (from === to) return 1;
+    const key = `${from}|${to}|${date}`;
+    if (!cache.has(key)) {
+      const entries = pairs[`${from}|${to}`] ?? [];
+      const inForce = entries.filter(entry => entry.date <= date).pop() ?? entries[0];
+      cache.set(key, inForce?.rate ?? null);
+    }
+    return cache.get(key) ?? null;
+  };
+};
+
+export const convertRecords = (
+  records: SalesRecord[],
+  currencyOf: (record: SalesRecord) => string,
+  { reportingCurrency, rates }: CurrencySettings
+): ConversionResult => {
+  if (!reportingCurrency) return { records, missingRates: {} };
+
+  const rateOf = createRateResolver(rates);
+  const missingRates: Record<string, number> = {};
+  const converted: SalesRecord[] = [];
+  records.forEach(record => {
+    const currency = currencyOf(record);
+    const rate = rateOf(currency, reportingCurrency, record.date);
+    if (rate === null) {
+      missingRates[currency] = (missingRates[currency] || 0) + 1;
+    } else {
+      converted.push(rate === 1 ? record : { ...record, money: record.money * rate });
+    }
+  });
+  return { records: converted, missingRates };
+};
+
+const CURRENCY_SETTINGS_KEY = 'salesDashboard.currencySettings';
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  try {
+    const stored = localStorage.getItem(CURRENCY_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_CURRENCY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CURRENCY_SETTINGS;
+  } catch {
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  localStorage.setItem(CURRENCY_SETTINGS_KEY, JSON.stringify(settings));
+};
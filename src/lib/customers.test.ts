@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { record } from '../test/fixtures';
+import { buildCohorts, customerTotalsOf, profilesFromTotals, type CustomerTotals } from './customers';
+
+const productOf = (sale: { coffee_name: string }) => sale.coffee_name;
+
+// One customer whose orders all fall on `last`, unless the first purchase is given.
+const customer = (last: string, orders: number, first = last): CustomerTotals => ({
+  orders,
+  revenue: orders * 10,
+  first,
+  last,
+  products: { Latte: orders },
+  months: new Set([first, last].map(date => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1))
+});
+
+describe('profilesFromTotals', () => {
+  it('profiles card customers and leaves cash sales out', () => {
+    const data = [
+      record({ date: '2024-03-01', card: 'A', money: 10, coffee_name: 'Latte' }),
+      record({ date: '2024-03-05', card: 'A', money: 12, coffee_name: 'Latte' }),
+      record({ date: '2024-03-03', card: 'A', money: 8, coffee_name: 'Mocha' }),
+      record({ date: '2024-03-10', card: 'B', money: 5, coffee_name: 'Americano' }),
+      record({ date: '2024-03-20', card: '', cash_type: 'cash' })
+    ];
+    const profiles = profilesFromTotals(customerTotalsOf(data, productOf));
+    expect(profiles.map(({ card, orders, lifetimeValue, firstPurchase, lastPurchase, favouriteProduct, recencyDays }) => (
+      { card, orders, lifetimeValue, firstPurchase, lastPurchase, favouriteProduct, recencyDays }
+    ))).toEqual([
+      { card: 'A', orders: 3, lifetimeValue: 30, firstPurchase: '2024-03-01', lastPurchase: '2024-03-05', favouriteProduct: 'Latte', recencyDays: 5 },
+      { card: 'B', orders: 1, lifetimeValue: 5, firstPurchase: '2024-03-10', lastPurchase: '2024-03-10', favouriteProduct: 'Americano', recencyDays: 0 }
+    ]);
+  });
+
+  it('returns no profiles without card customers', () => {
+    expect(profilesFromTotals({})).toEqual([]);
+  });
+
+  it('scores by quintile and gives equal values the same score', () => {
+    const customers = Object.fromEntries(
+      Array.from({ length: 10 }, (_, index) => [`C${index + 1}`, customer('2024-03-01', index + 1)])
+    );
+    expect(profilesFromTotals(customers).map(profile => profile.rfm.frequency)).toEqual([1, 1, 2, 2, 3, 3, 4, 4, 5, 5]);
+
+    const tied = profilesFromTotals({ A: customer('2024-03-01', 2), B: customer('2024-03-01', 2), C: customer('2024-03-01', 7) });
+    expect(tied.map(profile => profile.rfm.frequency)).toEqual([1, 1, 4]);
+    // Everyone bought on the reference date.
+    expect(tied.map(profile => profile.rfm.recency)).toEqual([1, 1, 1]);
+  });
+
+  it('assigns segments from the recency and frequency scores', () => {
+    const profiles = profilesFromTotals({
+      champion: customer('2024-03-31', 5),
+      newcomer: customer('2024-03-30', 1),
+      regular: customer('2024-03-29', 4),
+      slipping: customer('2024-03-28', 3),
+      gone: customer('2024-03-27', 2)
+    });
+    expect(profiles.map(profile => [profile.card, profile.rfm.recency, profile.rfm.frequency, profile.segment])).toEqual([
+      ['champion', 5, 5, 'champions'],
+      ['newcomer', 4, 1, 'new'],
+      ['regular', 3, 4, 'loyal'],
+      ['slipping', 2, 3, 'atRisk'],
+      ['gone', 1, 2, 'lost']
+    ]);
+  });
+});
+
+describe('buildCohorts', () => {
+  it('tracks the share of each first-month cohort buying again in later months', () => {
+    expect(buildCohorts({
+      A: customer('2024-03-15', 2, '2024-01-10'),
+      B: customer('2024-02-03', 2, '2024-01-20'),
+      C: customer('2024-02-08', 1)
+    })).toEqual([
+      { cohort: '2024-01', size: 2, retention: [100, 50, 50] },
+      { cohort: '2024-02', size: 1, retention: [100, 0] }
+    ]);
+  });
+
+  it('returns no cohorts without customers', () => {
+    expect(buildCohorts({})).toEqual([]);
+  });
+
+  it('handles more customers than a spread call takes arguments', () => {
+    const customers = Object.fromEntries(
+      Array.from({ length: 200_000 }, (_, index) => [`C${index}`, customer('2024-03-01', 1)])
+    );
+    expect(buildCohorts(customers)).toEqual([{ cohort: '2024-03', size: 200_000, retention: [100] }]);
+  });
+});
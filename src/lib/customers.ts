@@ -0,0 +1,168 @@
+import { daysBetween } from './dates';
+import type { SalesRecord } from '../types';
+
+export type RfmSegment =
+  | 'champions'
+  | 'loyal'
+  | 'potential'
+  | 'new'
+  | 'atRisk'
+  | 'needAttention'
+  | 'lost';
+
+export const RFM_SEGMENTS: RfmSegment[] = ['champions', 'loyal', 'potential', 'new', 'atRisk', 'needAttention', 'lost'];
+
+export interface CustomerProfile {
+  card: string;
+  orders: number;
+  lifetimeValue: number;
+  firstPurchase: string;
+  lastPurchase: string;
+  favouriteProduct: string;
+  recencyDays: number;
+  rfm: { recency: number; frequency: number; monetary: number };
+  segment: RfmSegment;
+}
+
+export interface Cohort {
+  cohort: string;
+  size: number;
+  // Share of the cohort (0-100) purchasing again N months after their first month; index 0 is always 100.
+  retention: number[];
+}
+
+// Cash sales carry no card, so they cannot be attributed to a customer.
+export const isIdentified = (record: Pick<SalesRecord, 'card'>) => record.card.trim() !== '';
+
+export const identifiedRecords = (data: SalesRecord[]) => data.filter(isIdentified);
+
+// Scores 1-5 by quintile: the share of customers with a strictly lower value decides the score,
+// so equal values always share a score.
+const quintileScores = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const lowerCount = (value: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sorted[middle] < value) low = middle + 1; else high = middle;
+    }
+    return low;
+  };
+  return values.map(value => 1 + Math.floor((5 * lowerCount(value)) / sorted.length));
+};
+
+const segmentFor = (recency: number, frequency: number): RfmSegment => {
+  if (recency >= 4 && frequency >= 4) return 'champions';
+  if (frequency >= 4) return recency >= 3 ? 'loyal' : 'atRisk';
+  if (recency >= 4) return frequency >= 2 ? 'potential' : 'new';
+  if (recency <= 2) return frequency >= 3 ? 'atRisk' : 'lost';
+  return 'needAttention';
+};
+
+// Running sums a customer's profile is derived from, so they can be collected from records
+// or from the buckets of the analytics index alike.
+export interface CustomerTotals {
+  orders: number;
+  revenue: number;
+  first: string;
+  last: string;
+  // Orders per product.
+  products: Record<string, number>;
+  // Months with a purchase, as month indexes.
+  months: Set<number>;
+}
+
+const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+export const addPurchases = (
+  customers: Record<string, CustomerTotals>,
+  card: string,
+  date: string,
+  product: string,
+  { count, revenue }: { count: number; revenue: number }
+) => {
+  const customer = customers[card] ?? (customers[card] = {
+    orders: 0,
+    revenue: 0,
+    first: date,
+    last: date,
+    products: {},
+    months: new Set()
+  });
+  customer.orders += count;
+  customer.revenue += revenue;
+  if (date < customer.first) customer.first = date;
+  if (date > customer.last) customer.last = date;
+  customer.products[product] = (customer.products[product] || 0) + count;
+  customer.months.add(monthIndex(date));
+  return customers;
+};
+
+export const customerTotalsOf = (data: SalesRecord[], productOf: (record: SalesRecord) => string) =>
+  identifiedRecords(data).reduce(
+    (acc, record) => addPurchases(acc, record.card, record.date, productOf(record), { count: 1, revenue: record.money }),
+    {} as Record<string, CustomerTotals>
+  );
+
+export const profilesFromTotals = (customers: Record<string, CustomerTotals>): CustomerProfile[] => {
+  const entries = Object.entries(customers);
+  if (entries.length === 0) return [];
+
+  const referenceDate = entries.reduce((latest, [, customer]) => customer.last > latest ? customer.last : latest, '');
+  const recencyDays = entries.map(([, customer]) => daysBetween(customer.last, referenceDate));
+  // Recent customers score high, so recency is scored on the negated day count.
+  const recencyScores = quintileScores(recencyDays.map(days => -days));
+  const frequencyScores = quintileScores(entries.map(([, customer]) => customer.orders));
+  const monetaryScores = quintileScores(entries.map(([, customer]) => customer.revenue));
+
+  return entries.map(([card, customer], index) => ({
+    card,
+    orders: customer.orders,
+    lifetimeValue: customer.revenue,
+    firstPurchase: customer.first,
+    lastPurchase: customer.last,
+    favouriteProduct: Object.entries(customer.products).sort((a, b) => b[1] - a[1])[0][0],
+    recencyDays: recencyDays[index],
+    rfm: { recency: recencyScores[index], frequency: frequencyScores[index], monetary: monetaryScores[index] },
+    segment: segmentFor(recencyScores[index], frequencyScores[index])
+  }));
+};
+
+export const buildCohorts = (customers: Record<string, CustomerTotals>): Cohort[] => {
+  const totals = Object.values(customers);
+  if (totals.length === 0) return [];
+
+  // A reduce rather than spreading into Math.max, which overflows the stack for many customers.
+  const lastMonth = monthIndex(totals.reduce((latest, customer) => (customer.last > latest ? customer.last : latest), ''));
+  const cohorts: Record<string, { start: number; size: number; active: number[] }> = {};
+  totals.forEach(customer => {
+    const cohort = customer.first.slice(0, 7);
+    const start = monthIndex(customer.first);
+    if (!cohorts[cohort]) {
+      cohorts[cohort] = { start, size: 0, active: Array.from({ length: lastMonth - start + 1 }, () => 0) };
+    }
+    cohorts[cohort].size += 1;
+    customer.months.forEach(month => {
+      cohorts[cohort].active[month - start] += 1;
+    });
+  });
+
+  return Object.keys(cohorts)
+    .sort()
+    .map(cohort => ({
+      cohort,
+      size: cohorts[cohort].size,
+      retention: cohorts[cohort].active.map(active => (active / cohorts[cohort].size) * 100)
+    }));
+};
+
+export const summariseSegments = (profiles: CustomerProfile[]) =>
+  RFM_SEGMENTS.map(segment => {
+    const members = profiles.filter(profile => profile.segment === segment);
+    return {
+      segment,
+      customers: members.length,
+      revenue: members.reduce((sum, profile) => sum + profile.lifetimeValue, 0)
+    };
+  });
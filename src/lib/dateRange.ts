@@ -0,0 +1,54 @@
+import { addDays, startOfMonth } from './dates';
+import type { SalesRecord } from '../types';
+
+export type DateRangePreset = 'all' | 'last7' | 'last30' | 'last90' | 'thisMonth' | 'custom';
+
+export interface DateRange {
+  preset: DateRangePreset;
+  // Only read for the custom preset; inclusive 'YYYY-MM-DD' bounds, null for open-ended.
+  from: string | null;
+  to: string | null;
+}
+
+export interface ResolvedDateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = ['all', 'last7', 'last30', 'last90', 'thisMonth', 'custom'];
+
+export const DEFAULT_DATE_RANGE: DateRange = { preset: 'all', from: null, to: null };
+
+export const getDataBounds = (data: SalesRecord[]): ResolvedDateRange => {
+  if (data.length === 0) return { from: null, to: null };
+  return data.reduce(
+    (bounds, record) => ({
+      from: !bounds.from || record.date < bounds.from ? record.date : bounds.from,
+      to: !bounds.to || record.date > bounds.to ? record.date : bounds.to
+    }),
+    { from: null as string | null, to: null as string | null }
+  );
+};
+
+// Relative presets are anchored to the last day in the data (`bounds`, see getDataBounds)
+// rather than today, since imported exports are usually historical.
+export const resolveDateRange = (range: DateRange, bounds: ResolvedDateRange): ResolvedDateRange => {
+  if (range.preset === 'custom') return { from: range.from, to: range.to };
+
+  const { to: lastDate } = bounds;
+  if (range.preset === 'all' || !lastDate) return { from: null, to: null };
+
+  const from = {
+    last7: addDays(lastDate, -6),
+    last30: addDays(lastDate, -29),
+    last90: addDays(lastDate, -89),
+    thisMonth: startOfMonth(lastDate)
+  }[range.preset];
+
+  return { from, to: lastDate };
+};
+
+export const filterByDateRange = (data: SalesRecord[], { from, to }: ResolvedDateRange) =>
+  !from && !to
+    ? data
+    : data.filter(record => (!from || record.date >= from) && (!to || record.date <= to));
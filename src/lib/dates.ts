@@ -0,0 +1,45 @@
+// Calendar helpers on 'YYYY-MM-DD' strings. All arithmetic goes through UTC so that
+// day boundaries never shift with the browser's timezone or daylight saving time.
+
+const toUtc = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const fromUtc = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number) => {
+  const result = toUtc(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUtc(result);
+};
+
+export const addMonths = (date: string, months: number) => {
+  const result = toUtc(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return fromUtc(result);
+};
+
+// 0 = Monday ... 6 = Sunday.
+export const dayOfWeek = (date: string) => (toUtc(date).getUTCDay() + 6) % 7;
+
+export const startOfWeek = (date: string) => addDays(date, -dayOfWeek(date));
+
+export const startOfMonth = (date: string) => `${date.slice(0, 7)}-01`;
+
+export const addYears = (date: string, years: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  // 29 February falls back to 28 February in non-leap years.
+  const lastDay = new Date(Date.UTC(year + years, month, 0)).getUTCDate();
+  return fromUtc(new Date(Date.UTC(year + years, month - 1, Math.min(day, lastDay))));
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((toUtc(to).getTime() - toUtc(from).getTime()) / 86_400_000);
+
+// Minutes since the epoch of a normalised 'YYYY-MM-DD HH:MM:SS' wall-clock datetime.
+export const wallClockMinutes = (datetime: string) => {
+  const [hour = 0, minute = 0, second = 0] = datetime.slice(11, 19).split(':').map(Number);
+  return toUtc(datetime.slice(0, 10)).getTime() / 60_000 + hour * 60 + minute + second / 60;
+};
@@ -0,0 +1,76 @@
+import Papa from 'papaparse';
+import writeXlsxFile from 'write-excel-file/browser';
+import { downloadFile } from './download';
+
+// Rows the charts draw are declared as type aliases rather than interfaces, since only
+// aliases get the implicit index signature that lets them be passed here unchanged.
+export type TableRow = Record<string, string | number>;
+
+export const exportCsv = (rows: TableRow[], fileName: string) => {
+  downloadFile(Papa.unparse(rows), `${fileName}.csv`, 'text/csv;charset=utf-8');
+};
+
+export const exportXlsx = async (rows: TableRow[], fileName: string) => {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const blob = await writeXlsxFile([
+    columns.map(column => ({ value: column, fontWeight: 'bold' as const })),
+    ...rows.map(row => columns.map(column => ({ value: row[column] ?? '' })))
+  ]).toBlob();
+  downloadFile(blob, `${fileName}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
+
+const findChartSvg = (container: HTMLElement) => {
+  const svg = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!svg) throw new Error('No chart found to export');
+  return svg;
+};
+
+// Recharts styles its SVG through attributes, so a standalone copy only needs explicit
+// dimensions, the SVG namespace and a white background to look the same outside the page.
+const serialiseSvg = (svg: SVGSVGElement) => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.style.backgroundColor = '#ffffff';
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+export const exportChartSvg = (container: HTMLElement, fileName: string) => {
+  const { markup } = serialiseSvg(findChartSvg(container));
+  downloadFile(markup, `${fileName}.svg`, 'image/svg+xml;charset=utf-8');
+};
+
+export const chartToPngBlob = (container: HTMLElement, scale = 2) =>
+  new Promise<Blob>((resolve, reject) => {
+    const { markup, width, height } = serialiseSvg(findChartSvg(container));
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render chart'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render chart'));
+    };
+    image.src = url;
+  });
+
+export const exportChartPng = async (container: HTMLElement, fileName: string) => {
+  downloadFile(await chartToPngBlob(container), `${fileName}.png`, 'image/png');
+};
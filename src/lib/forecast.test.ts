@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture, record } from '../test/fixtures';
+import { addDays, dayOfWeek } from './dates';
+import {
+  backtest,
+  dailySeries,
+  fitSeasonalModel,
+  forecastDays,
+  forecastDemand,
+  forecastProducts,
+  hourlyProfile,
+  type DailyValue
+} from './forecast';
+
+// Monday 2024-03-04 onwards; weekends sell half of a weekday.
+const WEEKLY_PATTERN = [1.2, 1.2, 1.2, 1.2, 1.2, 0.5, 0.5];
+
+const synthetic = (days: number, valueOf: (date: string, index: number) => number): DailyValue[] =>
+  Array.from({ length: days }, (_, index) => {
+    const date = addDays('2024-03-04', index);
+    return { date, value: valueOf(date, index) };
+  });
+
+describe('dailySeries', () => {
+  it('fills days without sales with zero', () => {
+    const data = [
+      record({ date: '2024-03-01', money: 10 }),
+      record({ date: '2024-03-01', money: 5 }),
+      record({ date: '2024-03-03', money: 7 })
+    ];
+    expect(dailySeries(data, sale => sale.money)).toEqual([
+      { date: '2024-03-01', value: 15 },
+      { date: '2024-03-02', value: 0 },
+      { date: '2024-03-03', value: 7 }
+    ]);
+  });
+});
+
+describe('fitSeasonalModel', () => {
+  it('needs two weeks of history', () => {
+    expect(fitSeasonalModel(synthetic(13, () => 1))).toBeNull();
+  });
+
+  it('reproduces a pure weekday pattern with a zero-width band', () => {
+    const series = synthetic(28, date => 100 * WEEKLY_PATTERN[dayOfWeek(date)]);
+    const model = fitSeasonalModel(series);
+    const points = forecastDays(model!, 7);
+
+    expect(points.map(point => point.date)).toEqual(synthetic(35, () => 0).slice(28).map(day => day.date));
+    points.forEach(point => {
+      expect(point.forecast).toBeCloseTo(100 * WEEKLY_PATTERN[dayOfWeek(point.date)]);
+      expect(point.upper - point.lower).toBeCloseTo(0);
+    });
+  });
+
+  it('continues a trend with damping', () => {
+    const model = fitSeasonalModel(synthetic(28, (_, index) => 100 + index));
+    const [first, , , , , , last] = forecastDays(model!, 7);
+
+    expect(model!.trend).toBeCloseTo(1);
+    expect(first.forecast).toBeCloseTo(127.9);
+    expect(last.forecast).toBeGreaterThan(first.forecast);
+    expect(last.forecast).toBeLessThan(127 + 7);
+  });
+
+  it('widens the band with noise and never goes below zero', () => {
+    const series = synthetic(28, (_, index) => (index % 2 === 0 ? 2 : 0));
+    const points = forecastDays(fitSeasonalModel(series)!, 14);
+
+    points.forEach(point => {
+      expect(point.lower).toBeGreaterThanOrEqual(0);
+      expect(point.upper).toBeGreaterThan(point.forecast);
+    });
+    expect(points[13].upper - points[13].forecast).toBeGreaterThan(points[0].upper - points[0].forecast);
+  });
+});
+
+describe('backtest', () => {
+  it('scores a forecast of the held-out days against the actuals', () => {
+    const series = synthetic(35, date => 100 * WEEKLY_PATTERN[dayOfWeek(date)]);
+    const result = backtest(series, 7);
+
+    expect(result?.points).toHaveLength(7);
+    expect(result?.points[0].actual).toBe(series[28].value);
+    expect(result?.mae).toBeCloseTo(0);
+    expect(result?.mape).toBeCloseTo(0);
+  });
+
+  it('needs enough history before the held-out days', () => {
+    expect(backtest(synthetic(20, () => 1), 7)).toBeNull();
+  });
+});
+
+describe('hourlyProfile', () => {
+  it('splits each weekday into hourly shares', () => {
+    const data = [
+      record({ date: '2024-03-04', hour: 8 }),
+      record({ date: '2024-03-04', hour: 8 }),
+      record({ date: '2024-03-04', hour: 12 }),
+      record({ date: '2024-03-04', hour: 9 }),
+      record({ date: '2024-03-05', hour: 9 })
+    ];
+    const profile = hourlyProfile(data);
+
+    expect(profile[0][8]).toBeCloseTo(0.5);
+    expect(profile[0][12]).toBeCloseTo(0.25);
+    expect(profile[1][9]).toBe(1);
+    expect(profile[6].every(share => share === 0)).toBe(true);
+  });
+});
+
+describe('forecastProducts', () => {
+  it('forecasts unit demand for every product in the fixture', () => {
+    const fixture = loadFixture('index_1.csv');
+    const forecasts = forecastProducts(fixture, sale => sale.coffee_name, 14);
+    const products = new Set(fixture.map(sale => sale.coffee_name));
+
+    expect(forecasts.map(forecast => forecast.product).sort()).toEqual(Array.from(products).sort());
+    expect(forecasts.map(forecast => forecast.units)).toEqual([...forecasts.map(forecast => forecast.units)].sort((a, b) => b - a));
+    forecasts.forEach(forecast => {
+      expect(forecast.lower).toBeLessThanOrEqual(forecast.units);
+      expect(forecast.upper).toBeGreaterThanOrEqual(forecast.units);
+      expect(forecast.perDay).toBeCloseTo(forecast.units / 14);
+    });
+  });
+});
+
+describe('forecastDemand', () => {
+  it('forecasts revenue and orders over the horizon', () => {
+    const fixture = loadFixture('index_1.csv');
+    const forecast = forecastDemand(fixture, sale => sale.coffee_name, 7);
+
+    expect(forecast.revenue).toEqual(dailySeries(fixture, sale => sale.money));
+    expect(forecast.revenueForecast).toHaveLength(7);
+    expect(forecast.ordersForecast).toHaveLength(7);
+    expect(forecast.revenueForecast[0].date).toBe(addDays(forecast.revenue[forecast.revenue.length - 1].date, 1));
+    expect(forecast.backtest?.points).toHaveLength(7);
+  });
+
+  it('forecasts nothing without enough history', () => {
+    const forecast = forecastDemand([record({})], sale => sale.coffee_name, 7);
+    expect(forecast.revenueForecast).toEqual([]);
+    expect(forecast.products).toEqual([]);
+  });
+});
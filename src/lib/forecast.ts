@@ -0,0 +1,244 @@
+import { addDays, dayOfWeek, daysBetween } from './dates';
+import type { SalesRecord } from '../types';
+
+export const FORECAST_WEEKS = [1, 2, 3, 4];
+
+// Days of history the model is fitted on, and the least it needs to see each weekday twice.
+export const FIT_WINDOW = 56;
+export const MIN_HISTORY = 14;
+
+// Each further step continues 90% of the previous step's trend, so short-term growth
+// does not run away over a four-week horizon.
+const TREND_DAMPING = 0.9;
+
+// Two-sided 95% band.
+const BAND_Z = 1.96;
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+// Multiplicative day-of-week seasonality on top of a damped linear trend.
+export interface SeasonalModel {
+  lastDate: string;
+  // Deseasonalised value on the last fitted day and its change per day.
+  level: number;
+  trend: number;
+  // Indexed 0 = Monday ... 6 = Sunday; 1 is an average day.
+  weekdayFactors: number[];
+  // Standard deviation of the in-sample residuals.
+  sigma: number;
+  observations: number;
+}
+
+export type ForecastPoint = {
+  date: string;
+  forecast: number;
+  lower: number;
+  upper: number;
+};
+
+export type BacktestPoint = ForecastPoint & {
+  actual: number;
+};
+
+export interface Backtest {
+  points: BacktestPoint[];
+  // Mean absolute error and mean absolute percentage error (days without sales are skipped).
+  mae: number;
+  mape: number | null;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Daily totals from the first to the last day in the data, with days without sales as zero.
+export const dailySeries = (data: SalesRecord[], valueOf: (record: SalesRecord) => number): DailyValue[] => {
+  if (data.length === 0) return [];
+  const totals = data.reduce((acc, record) => {
+    acc[record.date] = (acc[record.date] || 0) + valueOf(record);
+    return acc;
+  }, {} as Record<string, number>);
+  const dates = Object.keys(totals).sort();
+  const first = dates[0];
+  return Array.from({ length: daysBetween(first, dates[dates.length - 1]) + 1 }, (_, offset) => {
+    const date = addDays(first, offset);
+    return { date, value: totals[date] || 0 };
+  });
+};
+
+// Classical decomposition: each day is compared with the centred 7-day average around it,
+// which removes the trend before the weekday ratios are averaged.
+const seasonalFactors = (window: DailyValue[]) => {
+  const ratios = Array.from({ length: 7 }, () => [] as number[]);
+  window.slice(3, -3).forEach((day, offset) => {
+    const average = sum(window.slice(offset, offset + 7).map(neighbour => neighbour.value)) / 7;
+    if (average > 0) ratios[dayOfWeek(day.date)].push(day.value / average);
+  });
+  const raw = ratios.map(values => (values.length > 0 ? sum(values) / values.length : 1));
+  const mean = sum(raw) / 7;
+  return raw.map(factor => (mean > 0 ? factor / mean : 1));
+};
+
+export const fitSeasonalModel = (series: DailyValue[]): SeasonalModel | null => {
+  if (series.length < MIN_HISTORY) return null;
+  const window = series.slice(-FIT_WINDOW);
+  const weekdayFactors = seasonalFactors(window);
+
+  // Least-squares line through the deseasonalised values; weekdays that never sell carry no information.
+  const points = window
+    .map((day, index) => ({ index, factor: weekdayFactors[dayOfWeek(day.date)], value: day.value }))
+    .filter(point => point.factor > 0)
+    .map(point => ({ x: point.index, y: point.value / point.factor }));
+  const meanX = sum(points.map(point => point.x)) / points.length;
+  const meanY = sum(points.map(point => point.y)) / points.length;
+  const varianceX = sum(points.map(point => (point.x - meanX) ** 2));
+  const trend = varianceX > 0 ? sum(points.map(point => (point.x - meanX) * (point.y - meanY))) / varianceX : 0;
+  const intercept = meanY - trend * meanX;
+
+  const residuals = window.map((day, index) => day.value - (intercept + trend * index) * weekdayFactors[dayOfWeek(day.date)]);
+  const sigma = Math.sqrt(sum(residuals.map(residual => residual ** 2)) / Math.max(1, residuals.length - 2));
+
+  return {
+    lastDate: window[window.length - 1].date,
+    level: intercept + trend * (window.length - 1),
+    trend,
+    weekdayFactors,
+    sigma,
+    observations: window.length
+  };
+};
+
+export const forecastDays = (model: SeasonalModel, days: number): ForecastPoint[] => {
+  let dampedSteps = 0;
+  return Array.from({ length: days }, (_, offset) => {
+    const step = offset + 1;
+    dampedSteps += TREND_DAMPING ** step;
+    const date = addDays(model.lastDate, step);
+    const forecast = Math.max(0, (model.level + model.trend * dampedSteps) * model.weekdayFactors[dayOfWeek(date)]);
+    // Widens with the horizon to reflect the uncertainty of the fitted level and trend.
+    const margin = BAND_Z * model.sigma * Math.sqrt(1 + step / model.observations);
+    return { date, forecast, lower: Math.max(0, forecast - margin), upper: forecast + margin };
+  });
+};
+
+// Fits on everything before the last `days` days and forecasts them, as if made back then.
+export const backtest = (series: DailyValue[], days: number): Backtest | null => {
+  if (series.length <= days) return null;
+  const model = fitSeasonalModel(series.slice(0, -days));
+  if (!model) return null;
+  const actuals = series.slice(-days);
+  const points = forecastDays(model, days).map((point, index) => ({ ...point, actual: actuals[index].value }));
+  const errors = points.map(point => Math.abs(point.actual - point.forecast));
+  const withSales = points.filter(point => point.actual > 0);
+  return {
+    points,
+    mae: sum(errors) / points.length,
+    mape: withSales.length > 0
+      ? (sum(withSales.map(point => Math.abs(point.actual - point.forecast) / point.actual)) / withSales.length) * 100
+      : null
+  };
+};
+
+// Share of a weekday's orders falling into each hour, over the fitting window: profile[weekday][hour].
+export const hourlyProfile = (data: SalesRecord[]) => {
+  const lastDate = data.reduce((last, record) => (record.date > last ? record.date : last), '');
+  const from = lastDate ? addDays(lastDate, -(FIT_WINDOW - 1)) : '';
+  const counts = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0));
+  data
+    .filter(record => record.date >= from)
+    .forEach(record => {
+      counts[dayOfWeek(record.date)][record.hour] += 1;
+    });
+  return counts.map(hours => {
+    const total = sum(hours);
+    return hours.map(count => (total > 0 ? count / total : 0));
+  });
+};
+
+export type ProductForecast = {
+  product: string;
+  // Units over the whole horizon.
+  units: number;
+  lower: number;
+  upper: number;
+  perDay: number;
+  // Backtest over the same horizon: absolute error of the total as a share (0-100) of actual units.
+  backtestError: number | null;
+};
+
+export const forecastProducts = (
+  data: SalesRecord[],
+  productOf: (record: SalesRecord) => string,
+  days: number
+): ProductForecast[] => {
+  const lastDate = data.reduce((last, record) => (record.date > last ? record.date : last), '');
+  const byProduct = data.reduce((acc, record) => {
+    const product = productOf(record);
+    if (!acc[product]) {
+      acc[product] = [];
+    }
+    acc[product].push(record);
+    return acc;
+  }, {} as Record<string, SalesRecord[]>);
+
+  return Object.entries(byProduct)
+    .map(([product, records]) => {
+      // Pad to the last day of all data, so a product that stopped selling is forecast from its zeros.
+      const series = dailySeries(records, () => 1);
+      const tail = series.length > 0 ? daysBetween(series[series.length - 1].date, lastDate) : 0;
+      const padded = [
+        ...series,
+        ...Array.from({ length: tail }, (_, offset) => ({ date: addDays(series[series.length - 1].date, offset + 1), value: 0 }))
+      ];
+      const model = fitSeasonalModel(padded);
+      if (!model) return null;
+      const points = forecastDays(model, days);
+      const check = backtest(padded, days);
+      const actual = check ? sum(check.points.map(point => point.actual)) : 0;
+      const units = sum(points.map(point => point.forecast));
+      // Daily errors are treated as independent, so the band of the total grows with the square root of the days.
+      const margin = Math.sqrt(sum(points.map(point => ((point.upper - point.forecast) / BAND_Z) ** 2))) * BAND_Z;
+      return {
+        product,
+        units,
+        lower: Math.max(0, units - margin),
+        upper: units + margin,
+        perDay: units / days,
+        backtestError: check && actual > 0
+          ? (Math.abs(sum(check.points.map(point => point.forecast)) - actual) / actual) * 100
+          : null
+      };
+    })
+    .filter((forecast): forecast is ProductForecast => forecast !== null)
+    .sort((a, b) => b.units - a.units);
+};
+
+// Everything the forecast panel shows for one horizon, so it can be computed off the page in one go.
+export interface DemandForecast {
+  // Actual daily revenue, drawn before the forecast.
+  revenue: DailyValue[];
+  revenueForecast: ForecastPoint[];
+  ordersForecast: ForecastPoint[];
+  profile: number[][];
+  backtest: Backtest | null;
+  products: ProductForecast[];
+}
+
+export const forecastDemand = (
+  data: SalesRecord[],
+  productOf: (record: SalesRecord) => string,
+  days: number
+): DemandForecast => {
+  const revenue = dailySeries(data, record => record.money);
+  const revenueModel = fitSeasonalModel(revenue);
+  const ordersModel = fitSeasonalModel(dailySeries(data, () => 1));
+  return {
+    revenue,
+    revenueForecast: revenueModel ? forecastDays(revenueModel, days) : [],
+    ordersForecast: ordersModel ? forecastDays(ordersModel, days) : [],
+    profile: hourlyProfile(data),
+    backtest: backtest(revenue, days),
+    products: forecastProducts(data, productOf, days)
+  };
+};
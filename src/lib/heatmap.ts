@@ -0,0 +1,72 @@
+import type { DailySales } from './analytics';
+import { dayOfWeek } from './dates';
+import type { SalesRecord } from '../types';
+
+export type HeatmapMetric = 'orders' | 'revenue';
+
+export interface HeatmapCell {
+  weekday: number;
+  hour: number;
+  orders: number;
+  revenue: number;
+  // Averages over the days of this weekday that had at least one sale.
+  avgOrders: number;
+  avgRevenue: number;
+}
+
+export interface Heatmap {
+  cells: HeatmapCell[][];
+  tradingDays: number[];
+  hours: number[];
+  max: Record<HeatmapMetric, number>;
+}
+
+// Expects one entry per trading day, with zero orders where a chart selection matched nothing that
+// day, so the averages divide by the days the shop was open rather than the days the selection sold.
+export const buildHeatmap = (days: DailySales[]): Heatmap => {
+  const cells = Array.from({ length: 7 }, (_, weekday) =>
+    Array.from({ length: 24 }, (_, hour): HeatmapCell => ({ weekday, hour, orders: 0, revenue: 0, avgOrders: 0, avgRevenue: 0 }))
+  );
+  const tradingDays = Array.from({ length: 7 }, () => 0);
+
+  days.forEach(day => {
+    const weekday = dayOfWeek(day.date);
+    tradingDays[weekday] += 1;
+    day.hours.forEach(({ count, revenue }, hour) => {
+      cells[weekday][hour].orders += count;
+      cells[weekday][hour].revenue += revenue;
+    });
+  });
+
+  const max = { orders: 0, revenue: 0 };
+  cells.forEach((row, weekday) => row.forEach(cell => {
+    cell.avgOrders = tradingDays[weekday] ? cell.orders / tradingDays[weekday] : 0;
+    cell.avgRevenue = tradingDays[weekday] ? cell.revenue / tradingDays[weekday] : 0;
+    max.orders = Math.max(max.orders, cell.avgOrders);
+    max.revenue = Math.max(max.revenue, cell.avgRevenue);
+  }));
+
+  const activeHours = Array.from({ length: 24 }, (_, hour) => hour)
+    .filter(hour => cells.some(row => row[hour].orders > 0));
+  const hours = activeHours.length === 0
+    ? []
+    : Array.from(
+      { length: activeHours[activeHours.length - 1] - activeHours[0] + 1 },
+      (_, index) => activeHours[0] + index
+    );
+
+  return { cells, tradingDays, hours, max };
+};
+
+export const cellValue = (cell: HeatmapCell, metric: HeatmapMetric) =>
+  metric === 'orders' ? cell.avgOrders : cell.avgRevenue;
+
+export const heatmapToRows = (heatmap: Heatmap, metric: HeatmapMetric, weekdayName: (weekday: number) => string) =>
+  heatmap.cells.map((row, weekday) => ({
+    weekday: weekdayName(weekday),
+    trading_days: heatmap.tradingDays[weekday],
+    ...Object.fromEntries(heatmap.hours.map(hour => [`${hour}:00`, Number(cellValue(row[hour], metric).toFixed(2))]))
+  }));
+
+export const filterHeatmapCell = (data: SalesRecord[], weekday: number, hour: number) =>
+  data.filter(record => record.hour === hour && dayOfWeek(record.date) === weekday);
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COMPARISON } from './comparison';
+import { EMPTY_CROSS_FILTER } from './crossFilter';
+import { DEFAULT_DATE_RANGE } from './dateRange';
+import {
+  addWidget,
+  DEFAULT_LAYOUT,
+  hiddenWidgets,
+  mergeViews,
+  moveWidget,
+  normaliseLayout,
+  parseViewsJson,
+  removeWidget,
+  updateWidget,
+  ViewsFileError,
+  viewsToJson,
+  type DashboardLayout,
+  type DashboardView
+} from './layout';
+
+const layout: DashboardLayout = [
+  { id: 'kpis', span: 6 },
+  { id: 'products', span: 3, chartType: 'bar' },
+  { id: 'payments', span: 3, chartType: 'pie' }
+];
+
+const view = (name: string, overrides: Partial<DashboardView> = {}): DashboardView => ({
+  id: name,
+  name,
+  layout,
+  filters: {
+    dateRange: { preset: 'last30', from: null, to: null },
+    comparison: DEFAULT_COMPARISON,
+    productGrouping: 'category',
+    crossFilter: { ...EMPTY_CROSS_FILTER, payment: ['cash'] }
+  },
+  ...overrides
+});
+
+describe('layout editing', () => {
+  it('moves widgets and stops at either end', () => {
+    expect(moveWidget(layout, 'payments', -1).map(widget => widget.id)).toEqual(['kpis', 'payments', 'products']);
+    expect(moveWidget(layout, 'kpis', -1)).toEqual(layout);
+    expect(moveWidget(layout, 'kpis', 10).map(widget => widget.id)).toEqual(['products', 'payments', 'kpis']);
+  });
+
+  it('adds hidden widgets at the end with their default size once', () => {
+    expect(hiddenWidgets(layout)).not.toContain('kpis');
+    expect(hiddenWidgets(layout)).toContain('hourly');
+    const added = addWidget(layout, 'hourly');
+    expect(added[added.length - 1]).toEqual({ id: 'hourly', span: 3, chartType: 'line' });
+    expect(addWidget(added, 'hourly')).toBe(added);
+  });
+
+  it('removes and resizes widgets', () => {
+    expect(removeWidget(layout, 'products').map(widget => widget.id)).toEqual(['kpis', 'payments']);
+    expect(updateWidget(layout, 'products', { span: 6, chartType: 'table' })[1]).toEqual({ id: 'products', span: 6, chartType: 'table' });
+  });
+
+  it('shows every widget by default', () => {
+    expect(hiddenWidgets(DEFAULT_LAYOUT)).toEqual([]);
+  });
+});
+
+describe('normaliseLayout', () => {
+  it('drops unknown and repeated widgets and repairs invalid settings', () => {
+    expect(normaliseLayout([
+      { id: 'products', span: 5, chartType: 'radar' },
+      { id: 'sparkline', span: 3 },
+      { id: 'products', span: 6 },
+      { id: 'heatmap', span: 2, chartType: 'pie' },
+      'kpis'
+    ])).toEqual([
+      { id: 'products', span: 3, chartType: 'bar' },
+      { id: 'heatmap', span: 2 }
+    ]);
+  });
+
+  it('falls back to the default layout for anything but a list', () => {
+    expect(normaliseLayout({ kpis: 6 })).toBe(DEFAULT_LAYOUT);
+  });
+});
+
+describe('views JSON', () => {
+  it('round-trips views with their layout and filters', () => {
+    const views = [view('owner'), view('barista lead', { layout: [{ id: 'hourly', span: 6, chartType: 'table' }] })];
+    expect(parseViewsJson(viewsToJson(views))).toEqual(views);
+  });
+
+  it('fills in missing filters and drops invalid chart selections', () => {
+    const [imported] = parseViewsJson(JSON.stringify({
+      version: 1,
+      views: [{ id: 'a', name: ' owner ', layout: [{ id: 'kpis', span: 6 }], filters: { crossFilter: { hour: ['25', '8'], payment: 'cash' } } }]
+    }));
+    expect(imported).toEqual({
+      id: 'a',
+      name: 'owner',
+      layout: [{ id: 'kpis', span: 6 }],
+      filters: {
+        dateRange: DEFAULT_DATE_RANGE,
+        comparison: DEFAULT_COMPARISON,
+        productGrouping: 'product',
+        crossFilter: { ...EMPTY_CROSS_FILTER, hour: ['8'] }
+      }
+    });
+  });
+
+  it('repairs invalid date ranges and comparisons', () => {
+    const [imported] = parseViewsJson(JSON.stringify({
+      version: 1,
+      views: [
+        {
+          name: 'owner',
+          filters: {
+            dateRange: { preset: 'custom', from: 20240101, to: '2024-03-31' },
+            comparison: { mode: 'yesterday', from: '2024-01-01', to: null }
+          }
+        }
+      ]
+    }));
+    expect(imported.filters.dateRange).toEqual({ preset: 'custom', from: null, to: '2024-03-31' });
+    expect(imported.filters.comparison).toEqual(DEFAULT_COMPARISON);
+  });
+
+  it('swaps custom ranges whose ends are the wrong way round', () => {
+    const [imported] = parseViewsJson(JSON.stringify({
+      version: 1,
+      views: [
+        {
+          name: 'owner',
+          filters: {
+            dateRange: { preset: 'custom', from: '2024-03-31', to: '2024-01-01' },
+            comparison: { mode: 'custom', from: '2023-12-31', to: '2023-10-01' }
+          }
+        }
+      ]
+    }));
+    expect(imported.filters.dateRange).toEqual({ preset: 'custom', from: '2024-01-01', to: '2024-03-31' });
+    expect(imported.filters.comparison).toEqual({ mode: 'custom', from: '2023-10-01', to: '2023-12-31' });
+  });
+
+  it('skips views without a name', () => {
+    expect(parseViewsJson(JSON.stringify({ version: 1, views: [{ layout: [] }, view('owner')] }))).toEqual([view('owner')]);
+  });
+
+  it('rejects files that are not views', () => {
+    expect(() => parseViewsJson('[]')).toThrow(ViewsFileError);
+    expect(() => parseViewsJson('{ nope')).toThrow(ViewsFileError);
+  });
+
+  it('replaces saved views with the same name on import', () => {
+    const saved = [view('owner'), view('manager')];
+    const imported = [view('owner', { id: 'new-owner' })];
+    expect(mergeViews(saved, imported).map(item => item.id)).toEqual(['manager', 'new-owner']);
+  });
+});
@@ -0,0 +1,252 @@
+import type { ProductGrouping } from './catalogue';
+import { COMPARISON_MODES, DEFAULT_COMPARISON, type Comparison, type ComparisonMode } from './comparison';
+import {
+  CROSS_FILTER_DIMENSIONS,
+  crossFilterFromSearch,
+  crossFilterToSearch,
+  EMPTY_CROSS_FILTER,
+  type CrossFilter
+} from './crossFilter';
+import { DATE_RANGE_PRESETS, DEFAULT_DATE_RANGE, type DateRange, type DateRangePreset } from './dateRange';
+
+export type WidgetId =
+  | 'kpis'
+  | 'timeSeries'
+  | 'heatmap'
+  | 'customers'
+  | 'baskets'
+  | 'forecast'
+  | 'transactions'
+  | 'products'
+  | 'hourly'
+  | 'payments'
+  | 'frequency'
+  | 'priceVolume'
+  | 'anomalies'
+  | 'insights';
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'table';
+
+export const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie', 'table'];
+
+// Widths in columns of the six-column dashboard grid: a third, a half, two thirds and the full width.
+export const WIDGET_SPANS = [2, 3, 4, 6];
+
+interface WidgetDefinition {
+  span: number;
+  // Only the simple category charts can be redrawn as another chart type; the richer panels
+  // draw their own views.
+  chartType?: ChartType;
+}
+
+// Every widget the dashboard can show, in the order of the default layout.
+export const WIDGETS: Record<WidgetId, WidgetDefinition> = {
+  kpis: { span: 6 },
+  timeSeries: { span: 6 },
+  heatmap: { span: 6 },
+  customers: { span: 6 },
+  baskets: { span: 6 },
+  forecast: { span: 6 },
+  transactions: { span: 6 },
+  products: { span: 3, chartType: 'bar' },
+  hourly: { span: 3, chartType: 'line' },
+  payments: { span: 3, chartType: 'pie' },
+  frequency: { span: 3, chartType: 'bar' },
+  priceVolume: { span: 6, chartType: 'bar' },
+  anomalies: { span: 6 },
+  insights: { span: 6 }
+};
+
+export const WIDGET_IDS = Object.keys(WIDGETS) as WidgetId[];
+
+export interface WidgetConfig {
+  id: WidgetId;
+  span: number;
+  chartType?: ChartType;
+}
+
+// Widgets in display order; widgets left out are hidden.
+export type DashboardLayout = WidgetConfig[];
+
+export interface ViewFilters {
+  dateRange: DateRange;
+  comparison: Comparison;
+  productGrouping: ProductGrouping;
+  crossFilter: CrossFilter;
+}
+
+export interface DashboardView {
+  id: string;
+  name: string;
+  layout: DashboardLayout;
+  filters: ViewFilters;
+}
+
+const defaultWidget = (id: WidgetId): WidgetConfig => ({ id, ...WIDGETS[id] });
+
+export const DEFAULT_LAYOUT: DashboardLayout = WIDGET_IDS.map(defaultWidget);
+
+export const hiddenWidgets = (layout: DashboardLayout) =>
+  WIDGET_IDS.filter(id => !layout.some(widget => widget.id === id));
+
+export const addWidget = (layout: DashboardLayout, id: WidgetId): DashboardLayout =>
+  layout.some(widget => widget.id === id) ? layout : [...layout, defaultWidget(id)];
+
+export const removeWidget = (layout: DashboardLayout, id: WidgetId): DashboardLayout =>
+  layout.filter(widget => widget.id !== id);
+
+// Moves a widget by `offset` places, stopping at either end.
+export const moveWidget = (layout: DashboardLayout, id: WidgetId, offset: number): DashboardLayout => {
+  const from = layout.findIndex(widget => widget.id === id);
+  if (from === -1) return layout;
+  const to = Math.min(layout.length - 1, Math.max(0, from + offset));
+  const next = layout.filter(widget => widget.id !== id);
+  next.splice(to, 0, layout[from]);
+  return next;
+};
+
+export const updateWidget = (
+  layout: DashboardLayout,
+  id: WidgetId,
+  changes: Partial<Omit<WidgetConfig, 'id'>>
+): DashboardLayout => layout.map(widget => (widget.id === id ? { ...widget, ...changes } : widget));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Drops unknown and repeated widgets and falls back to the defaults for invalid sizes and chart
+// types, so layouts from older versions or hand-edited files still open.
+export const normaliseLayout = (value: unknown): DashboardLayout => {
+  if (!Array.isArray(value)) return DEFAULT_LAYOUT;
+  const seen = new Set<string>();
+  return value.filter(isRecord).flatMap(widget => {
+    const id = widget.id as WidgetId;
+    if (!WIDGET_IDS.includes(id) || seen.has(id)) return [];
+    seen.add(id);
+    const definition = WIDGETS[id];
+    return [{
+      id,
+      span: WIDGET_SPANS.includes(widget.span as number) ? (widget.span as number) : definition.span,
+      ...(definition.chartType
+        ? { chartType: CHART_TYPES.includes(widget.chartType as ChartType) ? (widget.chartType as ChartType) : definition.chartType }
+        : {})
+    }];
+  });
+};
+
+// Chart selections go through the query-string format, which already knows the valid values.
+const normaliseCrossFilter = (value: unknown): CrossFilter => {
+  if (!isRecord(value)) return EMPTY_CROSS_FILTER;
+  const filter = Object.fromEntries(
+    CROSS_FILTER_DIMENSIONS.map(dimension => {
+      const values = value[dimension];
+      return [dimension, Array.isArray(values) ? values.filter((item): item is string => typeof item === 'string') : []];
+    })
+  ) as CrossFilter;
+  return crossFilterFromSearch(crossFilterToSearch(filter, ''));
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const normaliseDate = (value: unknown) => (typeof value === 'string' && DATE.test(value) ? value : null);
+
+// A range whose ends were entered the wrong way round is swapped rather than matching nothing.
+const normaliseBounds = (value: Record<string, unknown>) => {
+  const from = normaliseDate(value.from);
+  const to = normaliseDate(value.to);
+  return from && to && from > to ? { from: to, to: from } : { from, to };
+};
+
+export const normaliseDateRange = (value: unknown): DateRange => {
+  if (!isRecord(value) || !DATE_RANGE_PRESETS.includes(value.preset as DateRangePreset)) return DEFAULT_DATE_RANGE;
+  return { preset: value.preset as DateRangePreset, ...normaliseBounds(value) };
+};
+
+export const normaliseComparison = (value: unknown): Comparison => {
+  if (!isRecord(value) || !COMPARISON_MODES.includes(value.mode as ComparisonMode)) return DEFAULT_COMPARISON;
+  return { mode: value.mode as ComparisonMode, ...normaliseBounds(value) };
+};
+
+export const normaliseProductGrouping = (value: unknown): ProductGrouping => (value === 'category' ? 'category' : 'product');
+
+const normaliseView = (value: unknown): DashboardView | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) return null;
+  const filters = isRecord(value.filters) ? value.filters : {};
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    name: value.name.trim(),
+    layout: normaliseLayout(value.layout),
+    filters: {
+      dateRange: normaliseDateRange(filters.dateRange),
+      comparison: normaliseComparison(filters.comparison),
+      productGrouping: normaliseProductGrouping(filters.productGrouping),
+      crossFilter: normaliseCrossFilter(filters.crossFilter)
+    }
+  };
+};
+
+const normaliseViews = (views: unknown[]) =>
+  views.map(normaliseView).filter((view): view is DashboardView => view !== null);
+
+const VIEWS_FILE_VERSION = 1;
+
+export const viewsToJson = (views: DashboardView[]) =>
+  JSON.stringify({ version: VIEWS_FILE_VERSION, views }, null, 2);
+
+// Thrown for files that are not valid JSON or not a views export, so the UI can explain it in the
+// user's language instead of showing the parser message.
+export class ViewsFileError extends Error {
+  constructor() {
+    super('Not a dashboard views file');
+    this.name = 'ViewsFileError';
+  }
+}
+
+export const parseViewsJson = (text: string): DashboardView[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ViewsFileError();
+  }
+  if (!isRecord(file) || file.version !== VIEWS_FILE_VERSION || !Array.isArray(file.views)) {
+    throw new ViewsFileError();
+  }
+  return normaliseViews(file.views);
+};
+
+// Imported views replace saved views with the same name, so re-importing a file does not duplicate them.
+export const mergeViews = (views: DashboardView[], imported: DashboardView[]) => [
+  ...views.filter(view => !imported.some(other => other.name === view.name)),
+  ...imported
+];
+
+const LAYOUT_KEY = 'salesDashboard.layout';
+const VIEWS_KEY = 'salesDashboard.views';
+
+export const loadLayout = (): DashboardLayout => {
+  try {
+    const stored = localStorage.getItem(LAYOUT_KEY);
+    return stored ? normaliseLayout(JSON.parse(stored)) : DEFAULT_LAYOUT;
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+};
+
+export const saveLayout = (layout: DashboardLayout) => {
+  localStorage.setItem(LAYOUT_KEY, JSON.stringify(layout));
+};
+
+export const loadViews = (): DashboardView[] => {
+  try {
+    const stored = localStorage.getItem(VIEWS_KEY);
+    const views: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(views) ? normaliseViews(views) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveViews = (views: DashboardView[]) => {
+  localStorage.setItem(VIEWS_KEY, JSON.stringify(views));
+};
@@ -0,0 +1,274 @@
+import type { SalesRecord } from '../types';
+import { CURRENCIES } from './currency';
+import { normalisePaymentType, type RejectedRow, type RejectionReason } from './validation';
+
+export type MappedField = 'date' | 'datetime' | 'cash_type' | 'card' | 'money' | 'coffee_name';
+
+export type ColumnMapping = Record<MappedField, string | null>;
+
+export type Delimiter = '' | ',' | ';' | '\t' | '|';
+export type DecimalSeparator = '.' | ',';
+export type DateFormat = 'YYYY-MM-DD' | 'DD.MM.YYYY' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface ImportOptions {
+  delimiter: Delimiter;
+  decimalSeparator: DecimalSeparator;
+  dateFormat: DateFormat;
+}
+
+export interface MappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+  options: ImportOptions;
+  currency?: string;
+}
+
+export type RawRow = Record<string, string>;
+
+export const MAPPED_FIELDS: { field: MappedField; required: boolean }[] = [
+  { field: 'datetime', required: true },
+  { field: 'date', required: false },
+  { field: 'coffee_name', required: true },
+  { field: 'money', required: true },
+  { field: 'cash_type', required: true },
+  { field: 'card', required: false }
+];
+
+export const DELIMITERS: { value: Delimiter; name: 'auto' | 'comma' | 'semicolon' | 'tab' | 'pipe' }[] = [
+  { value: '', name: 'auto' },
+  { value: ',', name: 'comma' },
+  { value: ';', name: 'semicolon' },
+  { value: '\t', name: 'tab' },
+  { value: '|', name: 'pipe' }
+];
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'DD.MM.YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+export const DEFAULT_OPTIONS: ImportOptions = {
+  delimiter: '',
+  decimalSeparator: '.',
+  dateFormat: 'YYYY-MM-DD'
+};
+
+const FIELD_SYNONYMS: Record<MappedField, string[]> = {
+  datetime: ['datetime', 'timestamp', 'datetimeutc', 'transactiontime', 'czas', 'dataigodzina', 'datagodzina'],
+  date: ['date', 'data', 'day', 'dzien', 'transactiondate'],
+  coffee_name: ['coffeename', 'product', 'productname', 'item', 'itemname', 'produkt', 'nazwa', 'towar'],
+  money: ['money', 'amount', 'total', 'price', 'value', 'kwota', 'cena', 'wartosc', 'suma'],
+  cash_type: ['cashtype', 'payment', 'paymenttype', 'paymentmethod', 'tender', 'platnosc', 'typplatnosci', 'formaplatnosci'],
+  card: ['card', 'cardid', 'cardnumber', 'customer', 'customerid', 'karta', 'klient']
+};
+
+const normaliseHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/[^a-z0-9]/g, '');
+
+// Exact synonym matches win over partial ones, and a column is never suggested for two fields.
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { date: null, datetime: null, cash_type: null, card: null, money: null, coffee_name: null };
+  const used = new Set<string>();
+  const fields = MAPPED_FIELDS.map(({ field }) => field);
+
+  const assign = (matches: (normalised: string, synonym: string) => boolean) => {
+    fields.forEach(field => {
+      if (mapping[field]) return;
+      const header = headers.find(candidate =>
+        !used.has(candidate) &&
+        FIELD_SYNONYMS[field].some(synonym => matches(normaliseHeader(candidate), synonym))
+      );
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+      }
+    });
+  };
+
+  assign((normalised, synonym) => normalised === synonym);
+  assign((normalised, synonym) => normalised.includes(synonym));
+
+  return mapping;
+};
+
+export const suggestOptions = (rows: RawRow[], mapping: ColumnMapping, delimiter: Delimiter): ImportOptions => {
+  const sample = (field: MappedField) =>
+    rows.slice(0, 20).map(row => (mapping[field] ? row[mapping[field]] ?? '' : '')).filter(Boolean);
+
+  const amounts = sample('money');
+  const decimalSeparator: DecimalSeparator = amounts.some(value => /^-?\d+,\d+$/.test(value.trim())) ? ',' : '.';
+
+  const dates = sample('datetime');
+  let dateFormat: DateFormat = 'YYYY-MM-DD';
+  if (dates.some(value => /^\d{1,2}\.\d{1,2}\.\d{4}/.test(value))) {
+    dateFormat = 'DD.MM.YYYY';
+  } else if (dates.some(value => /^\d{1,2}\/\d{1,2}\/\d{4}/.test(value))) {
+    dateFormat = dates.some(value => Number(value.split('/')[1]) > 12) ? 'MM/DD/YYYY' : 'DD/MM/YYYY';
+  }
+
+  return { delimiter, decimalSeparator, dateFormat };
+};
+
+export const parseAmount = (value: string, decimalSeparator: DecimalSeparator) => {
+  const cleaned = value.replace(/[\s\u00a0]/g, '').replace(/[^\d,.-]/g, '');
+  const normalised = decimalSeparator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  return parseFloat(normalised);
+};
+
+interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  fraction: string;
+}
+
+const DATE_TIME_PATTERN = /^(\d{1,4})[-./](\d{1,2})[-./](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/;
+
+// Reads the wall-clock time written in the export instead of going through `new Date()`,
+// so the hour of a sale does not depend on the browser's timezone.
+export const parseDateTime = (value: string, dateFormat: DateFormat): DateTimeParts | null => {
+  const match = value.trim().match(DATE_TIME_PATTERN);
+  if (!match) return null;
+
+  const [, first, second, third, hour = '0', minute = '0', seconds = '0', fraction = ''] = match;
+  const [year, month, day] = {
+    'YYYY-MM-DD': [first, second, third],
+    'DD.MM.YYYY': [third, second, first],
+    'DD/MM/YYYY': [third, second, first],
+    'MM/DD/YYYY': [third, first, second]
+  }[dateFormat].map(Number);
+
+  const parts = { year, month, day, hour: Number(hour), minute: Number(minute), second: Number(seconds), fraction };
+  const check = new Date(Date.UTC(year, month - 1, day));
+  const valid = year >= 1000 &&
+    check.getUTCFullYear() === year && check.getUTCMonth() === month - 1 && check.getUTCDate() === day &&
+    parts.hour < 24 && parts.minute < 60 && parts.second < 60;
+
+  return valid ? parts : null;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatDate = ({ year, month, day }: DateTimeParts) => `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+
+const formatDateTime = (parts: DateTimeParts) =>
+  `${formatDate(parts)} ${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}${parts.fraction ? `.${parts.fraction}` : ''}`;
+
+export interface MappingResult {
+  records: SalesRecord[];
+  rejected: RejectedRow[];
+}
+
+export const applyMapping = (
+  rows: RawRow[],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  source: string
+): MappingResult => {
+  const read = (row: RawRow, field: MappedField) => {
+    const column = mapping[field];
+    return column ? String(row[column] ?? '').trim() : '';
+  };
+
+  const records: SalesRecord[] = [];
+  const rejected: RejectedRow[] = [];
+
+  rows.forEach((row, index) => {
+    const reasons: RejectionReason[] = [];
+    const parts = parseDateTime(read(row, 'datetime'), options.dateFormat);
+    const dateParts = mapping.date ? parseDateTime(read(row, 'date'), options.dateFormat) : parts;
+    const money = parseAmount(read(row, 'money'), options.decimalSeparator);
+    const cashType = normalisePaymentType(read(row, 'cash_type'));
+    const coffeeName = read(row, 'coffee_name');
+
+    if (!coffeeName) reasons.push('missing_product');
+    if (!(money > 0)) reasons.push('non_positive_amount');
+    if (!parts || !dateParts) {
+      reasons.push('invalid_date');
+    } else if (formatDate(parts) !== formatDate(dateParts)) {
+      reasons.push('date_mismatch');
+    }
+    if (!cashType) reasons.push('unknown_payment_type');
+
+    if (reasons.length > 0 || !parts || !dateParts || !cashType) {
+      rejected.push({ line: index + 2, row, reasons });
+      return;
+    }
+
+    records.push({
+      date: formatDate(dateParts),
+      datetime: formatDateTime(parts),
+      cash_type: cashType,
+      card: read(row, 'card'),
+      money,
+      coffee_name: coffeeName,
+      hour: parts.hour,
+      source
+    });
+  });
+
+  return { records, rejected };
+};
+
+export const isMappingComplete = (mapping: ColumnMapping) =>
+  MAPPED_FIELDS.every(({ field, required }) => !required || mapping[field]);
+
+const PRESETS_KEY = 'salesDashboard.mappingPresets';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Presets are dropped rather than repaired, since a preset with a guessed column or format
+// would silently import the file wrongly. Optional columns may be left out.
+const normalisePreset = (value: unknown): MappingPreset | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) return null;
+  const { mapping, options, currency } = value;
+  if (!isRecord(mapping) || !isRecord(options)) return null;
+
+  const columns = MAPPED_FIELDS.map(({ field, required }) => {
+    const column = mapping[field] ?? null;
+    return [field, typeof column === 'string' || (column === null && !required) ? column : undefined];
+  });
+  if (columns.some(([, column]) => column === undefined)) return null;
+
+  const delimiter = options.delimiter as Delimiter;
+  const decimalSeparator = options.decimalSeparator as DecimalSeparator;
+  const dateFormat = options.dateFormat as DateFormat;
+  if (
+    !DELIMITERS.some(({ value }) => value === delimiter) ||
+    (decimalSeparator !== '.' && decimalSeparator !== ',') ||
+    !DATE_FORMATS.includes(dateFormat)
+  ) {
+    return null;
+  }
+
+  return {
+    name: value.name,
+    mapping: Object.fromEntries(columns) as ColumnMapping,
+    options: { delimiter, decimalSeparator, dateFormat },
+    ...(CURRENCIES.includes(currency as string) ? { currency: currency as string } : {})
+  };
+};
+
+export const loadPresets = (): MappingPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    const presets: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(presets)
+      ? presets.map(normalisePreset).filter((preset): preset is MappingPreset => preset !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: MappingPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
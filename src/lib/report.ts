@@ -0,0 +1,66 @@
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+
+export interface ReportOptions {
+  title: string;
+  headerLines: string[];
+  sections: HTMLElement[];
+  fileName: string;
+}
+
+const PAGE_MARGIN = 10;
+const SECTION_GAP = 4;
+
+// Builds the header as a temporary DOM node so it is rasterised like the rest of the report;
+// jsPDF's built-in fonts cannot render Polish characters.
+const createHeader = (title: string, lines: string[]) => {
+  const header = document.createElement('div');
+  header.style.cssText = 'position:fixed;left:-10000px;top:0;width:1000px;padding:24px;background:#fff;font-family:sans-serif;color:#111827';
+  const heading = document.createElement('h1');
+  heading.textContent = title;
+  heading.style.cssText = 'font-size:28px;font-weight:700;margin:0 0 12px';
+  header.appendChild(heading);
+  lines.forEach(line => {
+    const paragraph = document.createElement('p');
+    paragraph.textContent = line;
+    paragraph.style.cssText = 'font-size:16px;margin:4px 0;color:#4b5563';
+    header.appendChild(paragraph);
+  });
+  document.body.appendChild(header);
+  return header;
+};
+
+export const generatePdfReport = async ({ title, headerLines, sections, fileName }: ReportOptions) => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  const pageHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN * 2;
+  let cursor = PAGE_MARGIN;
+
+  const header = createHeader(title, headerLines);
+  try {
+    for (const element of [header, ...sections]) {
+      const canvas = await html2canvas(element, {
+        scale: 2,
+        backgroundColor: '#ffffff',
+        logging: false,
+        ignoreElements: node => node.hasAttribute('data-report-ignore')
+      });
+      let width = pageWidth;
+      let height = (canvas.height * width) / canvas.width;
+      if (height > pageHeight) {
+        width = (width * pageHeight) / height;
+        height = pageHeight;
+      }
+      if (cursor + height > PAGE_MARGIN + pageHeight) {
+        pdf.addPage();
+        cursor = PAGE_MARGIN;
+      }
+      pdf.addImage(canvas.toDataURL('image/png'), 'PNG', PAGE_MARGIN, cursor, width, height);
+      cursor += height + SECTION_GAP;
+    }
+  } finally {
+    header.remove();
+  }
+
+  pdf.save(`${fileName}.pdf`);
+};
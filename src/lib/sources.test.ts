@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { record } from '../test/fixtures';
+import { mergeSources, transactionKey } from './sources';
+import type { DataSource } from '../types';
+
+const source = (id: string, records: DataSource['records'], enabled = true): DataSource => ({
+  id,
+  name: id,
+  records,
+  enabled,
+  currency: 'PLN',
+  report: { fileName: id, totalRows: records.length, acceptedRows: records.length, rejected: [] }
+});
+
+describe('transactionKey', () => {
+  it('matches the same sale across exports with different precision and spelling', () => {
+    expect(transactionKey(record({ datetime: '2024-03-01 10:15:50.520', coffee_name: 'Americano with Milk' }))).toBe(
+      transactionKey(record({ datetime: '2024-03-01 10:15:50', coffee_name: ' americano  with milk' }))
+    );
+  });
+
+  it('tells apart sales of different products or seconds', () => {
+    expect(transactionKey(record({ coffee_name: 'Latte' }))).not.toBe(transactionKey(record({ coffee_name: 'Cappuccino' })));
+    expect(transactionKey(record({ datetime: '2024-03-01 10:00:01' }))).not.toBe(transactionKey(record({})));
+  });
+});
+
+describe('mergeSources', () => {
+  it('keeps the first copy of a sale and lets the later one through when that source is off', () => {
+    const first = record({ datetime: '2024-03-01 10:15:50.520', coffee_name: 'Americano with Milk', source: 'index_1' });
+    const second = record({ datetime: '2024-03-01 10:15:50', coffee_name: 'Americano with milk', source: 'index_2' });
+    expect(mergeSources([source('a', [first]), source('b', [second])]).records).toEqual([first]);
+    expect(mergeSources([source('a', [first], false), source('b', [second])]).records).toEqual([second]);
+  });
+
+  it('counts the duplicates of each source against the sources enabled before it', () => {
+    const sale = record({});
+    const other = record({ coffee_name: 'Mocha' });
+    expect(mergeSources([source('a', [sale]), source('b', [sale, other]), source('c', [other], false)]).duplicates).toEqual({
+      a: 0,
+      b: 1,
+      c: 1
+    });
+    expect(mergeSources([source('a', [sale], false), source('b', [sale, other])]).duplicates).toEqual({ a: 0, b: 0 });
+  });
+});
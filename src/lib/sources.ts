@@ -0,0 +1,41 @@
+import { normaliseProductName } from './catalogue';
+import type { DataSource, SalesRecord } from '../types';
+
+// Two rows describe the same transaction when they share datetime, amount and product,
+// regardless of which export they came from. Exports differ in fractional seconds and in
+// the spelling of product names, so neither is part of the key.
+export const transactionKey = (record: SalesRecord) =>
+  `${record.datetime.trim().replace(/\.\d+$/, '')}|${record.money.toFixed(2)}|${normaliseProductName(record.coffee_name)}`;
+
+export interface MergedSources {
+  records: SalesRecord[];
+  // Per source id, the records already contributed by an earlier enabled source.
+  duplicates: Record<string, number>;
+}
+
+// Merges the enabled sources in import order. A transaction already contributed by an
+// earlier source is skipped, so switching that source off lets the later copy through.
+// Disabled sources are still checked, so the list shows what enabling them would add.
+export const mergeSources = (sources: DataSource[]): MergedSources => {
+  const seen = new Set<string>();
+  const records: SalesRecord[] = [];
+  const duplicates: Record<string, number> = {};
+
+  sources.forEach(source => {
+    const keys = new Set<string>();
+    duplicates[source.id] = 0;
+    source.records.forEach(record => {
+      const key = transactionKey(record);
+      if (seen.has(key)) {
+        duplicates[source.id] += 1;
+        return;
+      }
+      if (!source.enabled) return;
+      keys.add(key);
+      records.push(record);
+    });
+    keys.forEach(key => seen.add(key));
+  });
+
+  return { records, duplicates };
+};
@@ -0,0 +1,119 @@
+import type { Comparison } from './comparison';
+import type { DateRange } from './dateRange';
+import type { ProductGrouping } from './catalogue';
+import { DEFAULT_CURRENCY } from './currency';
+import { normaliseComparison, normaliseDateRange, normaliseProductGrouping } from './layout';
+import type { DataSource } from '../types';
+
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  importedAt: string;
+  updatedAt: string;
+  fileNames: string[];
+  rowCount: number;
+}
+
+export interface DashboardState {
+  datasetId: string | null;
+  dateRange: DateRange;
+  comparison: Comparison;
+  productGrouping: ProductGrouping;
+}
+
+const DB_NAME = 'sales-dashboard';
+const DB_VERSION = 1;
+const DATASETS = 'datasets';
+const SOURCES = 'sources';
+const SETTINGS = 'settings';
+const DASHBOARD_STATE_KEY = 'dashboardState';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(DATASETS, { keyPath: 'id' });
+        db.createObjectStore(SOURCES);
+        db.createObjectStore(SETTINGS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transaction = async (stores: string[], mode: IDBTransactionMode, run: (tx: IDBTransaction) => void) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    run(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listDatasets = async (): Promise<DatasetMeta[]> => {
+  const db = await openDatabase();
+  const datasets = await promisify<DatasetMeta[]>(db.transaction(DATASETS).objectStore(DATASETS).getAll());
+  return datasets.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadDatasetSources = async (id: string): Promise<DataSource[] | null> => {
+  const db = await openDatabase();
+  const sources = await promisify<DataSource[] | undefined>(db.transaction(SOURCES).objectStore(SOURCES).get(id));
+  // Datasets saved before sources had a currency are read as the default one.
+  return sources ? sources.map(source => ({ ...source, currency: source.currency ?? DEFAULT_CURRENCY })) : null;
+};
+
+export const saveDataset = (meta: DatasetMeta, sources: DataSource[]) =>
+  transaction([DATASETS, SOURCES], 'readwrite', tx => {
+    tx.objectStore(DATASETS).put(meta);
+    tx.objectStore(SOURCES).put(sources, meta.id);
+  });
+
+export const renameDataset = async (id: string, name: string) => {
+  const db = await openDatabase();
+  const meta = await promisify<DatasetMeta | undefined>(db.transaction(DATASETS).objectStore(DATASETS).get(id));
+  if (!meta) return;
+  await transaction([DATASETS], 'readwrite', tx => {
+    tx.objectStore(DATASETS).put({ ...meta, name });
+  });
+};
+
+export const deleteDataset = (id: string) =>
+  transaction([DATASETS, SOURCES], 'readwrite', tx => {
+    tx.objectStore(DATASETS).delete(id);
+    tx.objectStore(SOURCES).delete(id);
+  });
+
+export const loadDashboardState = async (): Promise<DashboardState | null> => {
+  const db = await openDatabase();
+  const state = await promisify<Partial<Record<keyof DashboardState, unknown>> | undefined>(
+    db.transaction(SETTINGS).objectStore(SETTINGS).get(DASHBOARD_STATE_KEY)
+  );
+  if (!state) return null;
+  // Checked like an imported view, since the stored state may come from an older version.
+  return {
+    datasetId: typeof state.datasetId === 'string' ? state.datasetId : null,
+    dateRange: normaliseDateRange(state.dateRange),
+    comparison: normaliseComparison(state.comparison),
+    productGrouping: normaliseProductGrouping(state.productGrouping)
+  };
+};
+
+export const saveDashboardState = (state: DashboardState) =>
+  transaction([SETTINGS], 'readwrite', tx => {
+    tx.objectStore(SETTINGS).put(state, DASHBOARD_STATE_KEY);
+  });
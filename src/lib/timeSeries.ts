@@ -0,0 +1,59 @@
+import type { DailySales } from './analytics';
+import { addDays, addMonths, startOfMonth, startOfWeek } from './dates';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface TimeSeriesPoint {
+  period: string;
+  revenue: number;
+  orders: number;
+  revenueAverage: number;
+  ordersAverage: number;
+}
+
+export const DEFAULT_MOVING_AVERAGE: Record<Granularity, number> = {
+  day: 7,
+  week: 4,
+  month: 3
+};
+
+const periodStart = (date: string, granularity: Granularity) =>
+  granularity === 'day' ? date : granularity === 'week' ? startOfWeek(date) : startOfMonth(date);
+
+const nextPeriod = (period: string, granularity: Granularity) =>
+  granularity === 'day' ? addDays(period, 1) : granularity === 'week' ? addDays(period, 7) : addMonths(period, 1);
+
+// Periods without sales are filled with zeros so gaps show up in the chart and count
+// towards the trailing moving average.
+export const buildTimeSeries = (days: DailySales[], granularity: Granularity, window: number): TimeSeriesPoint[] => {
+  if (days.length === 0) return [];
+
+  const totals = days.reduce((acc, day) => {
+    const period = periodStart(day.date, granularity);
+    if (!acc[period]) {
+      acc[period] = { revenue: 0, orders: 0 };
+    }
+    acc[period].revenue += day.revenue;
+    acc[period].orders += day.orders;
+    return acc;
+  }, {} as Record<string, { revenue: number; orders: number }>);
+
+  const periods = Object.keys(totals).sort();
+  const last = periods[periods.length - 1];
+  const series: TimeSeriesPoint[] = [];
+
+  for (let period = periods[0]; period <= last; period = nextPeriod(period, granularity)) {
+    const { revenue, orders } = totals[period] ?? { revenue: 0, orders: 0 };
+    const trailing = series.slice(Math.max(0, series.length - window + 1));
+    const count = trailing.length + 1;
+    series.push({
+      period,
+      revenue,
+      orders,
+      revenueAverage: (trailing.reduce((sum, point) => sum + point.revenue, 0) + revenue) / count,
+      ordersAverage: (trailing.reduce((sum, point) => sum + point.orders, 0) + orders) / count
+    });
+  }
+
+  return series;
+};
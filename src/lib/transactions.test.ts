@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { record } from '../test/fixtures';
+import {
+  EMPTY_TRANSACTION_FILTERS,
+  filterTransactions,
+  sortTransactions,
+  transactionsToRows
+} from './transactions';
+
+const sourceName = (sourceId: string) => (sourceId === 'a' ? 'kasa_1.csv' : 'kasa_2.csv');
+
+const data = [
+  record({ date: '2024-03-01', datetime: '2024-03-01 08:15:00', coffee_name: 'Latte', money: 38.7, card: 'ANON-0001', source: 'a' }),
+  record({ date: '2024-03-02', datetime: '2024-03-02 09:00:00', coffee_name: 'Americano', money: 28.9, cash_type: 'cash', card: '', source: 'b' }),
+  record({ date: '2024-03-03', datetime: '2024-03-03 10:30:00', coffee_name: 'Latte', money: 40, card: 'ANON-0002', source: 'b' }),
+  record({ date: '2024-03-04', datetime: '2024-03-04 11:45:00', coffee_name: 'Cocoa', money: 35.8, card: 'ANON-0001', source: 'a' })
+];
+
+describe('filterTransactions', () => {
+  const filter = (changes: Partial<typeof EMPTY_TRANSACTION_FILTERS>) =>
+    filterTransactions(data, { ...EMPTY_TRANSACTION_FILTERS, ...changes }, sourceName);
+
+  it('returns every row without filters', () => {
+    expect(filter({})).toEqual(data);
+  });
+
+  it('searches all text columns including the source name', () => {
+    expect(filter({ search: 'latte' })).toEqual([data[0], data[2]]);
+    expect(filter({ search: 'KASA_2' })).toEqual([data[1], data[2]]);
+    expect(filter({ search: '03-04' })).toEqual([data[3]]);
+  });
+
+  it('combines the column filters', () => {
+    expect(filter({ product: 'Latte', card: '0002' })).toEqual([data[2]]);
+    expect(filter({ payment: 'cash' })).toEqual([data[1]]);
+    expect(filter({ minAmount: 30, maxAmount: 38.7 })).toEqual([data[0], data[3]]);
+    expect(filter({ from: '2024-03-02', to: '2024-03-03' })).toEqual([data[1], data[2]]);
+  });
+});
+
+describe('sortTransactions', () => {
+  it('sorts amounts numerically in both directions', () => {
+    expect(sortTransactions(data, { column: 'money', direction: 'asc' }, sourceName).map(row => row.money))
+      .toEqual([28.9, 35.8, 38.7, 40]);
+    expect(sortTransactions(data, { column: 'money', direction: 'desc' }, sourceName).map(row => row.money))
+      .toEqual([40, 38.7, 35.8, 28.9]);
+  });
+
+  it('sorts text columns and keeps the order of ties', () => {
+    expect(sortTransactions(data, { column: 'coffee_name', direction: 'asc' }, sourceName).map(row => row.datetime))
+      .toEqual(['2024-03-02 09:00:00', '2024-03-04 11:45:00', '2024-03-01 08:15:00', '2024-03-03 10:30:00']);
+  });
+
+  it('does not mutate the input', () => {
+    const copy = [...data];
+    sortTransactions(data, { column: 'datetime', direction: 'desc' }, sourceName);
+    expect(data).toEqual(copy);
+  });
+});
+
+describe('transactionsToRows', () => {
+  it('exports the rows with the source file name', () => {
+    expect(transactionsToRows([data[1]], sourceName)).toEqual([
+      { datetime: '2024-03-02 09:00:00', product: 'Americano', amount: 28.9, payment: 'cash', card: '', source: 'kasa_2.csv' }
+    ]);
+  });
+});
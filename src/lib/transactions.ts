@@ -0,0 +1,92 @@
+import type { SalesRecord } from '../types';
+
+export type TransactionColumn = 'datetime' | 'coffee_name' | 'money' | 'cash_type' | 'card' | 'source';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TransactionSort {
+  column: TransactionColumn;
+  direction: SortDirection;
+}
+
+export interface TransactionFilters {
+  // Matched case-insensitively against every text column.
+  search: string;
+  product: string;
+  payment: string;
+  // Substring of the card identifier.
+  card: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  // Inclusive 'YYYY-MM-DD' bounds.
+  from: string | null;
+  to: string | null;
+}
+
+export const TRANSACTION_COLUMNS: TransactionColumn[] = ['datetime', 'coffee_name', 'money', 'cash_type', 'card', 'source'];
+
+export const DEFAULT_TRANSACTION_SORT: TransactionSort = { column: 'datetime', direction: 'desc' };
+
+export const EMPTY_TRANSACTION_FILTERS: TransactionFilters = {
+  search: '',
+  product: '',
+  payment: '',
+  card: '',
+  minAmount: null,
+  maxAmount: null,
+  from: null,
+  to: null
+};
+
+export const distinctValues = (data: SalesRecord[], column: 'coffee_name' | 'cash_type') =>
+  Array.from(new Set(data.map(record => record[column]))).sort((a, b) => a.localeCompare(b));
+
+// `sourceName` turns the source id stored on a record into the file name shown in the table.
+export const filterTransactions = (
+  data: SalesRecord[],
+  filters: TransactionFilters,
+  sourceName: (sourceId: string) => string
+) => {
+  const search = filters.search.trim().toLowerCase();
+  const card = filters.card.trim().toLowerCase();
+
+  return data.filter(record =>
+    (!filters.product || record.coffee_name === filters.product) &&
+    (!filters.payment || record.cash_type === filters.payment) &&
+    (!card || record.card.toLowerCase().includes(card)) &&
+    (filters.minAmount === null || record.money >= filters.minAmount) &&
+    (filters.maxAmount === null || record.money <= filters.maxAmount) &&
+    (!filters.from || record.date >= filters.from) &&
+    (!filters.to || record.date <= filters.to) &&
+    (!search || [record.datetime, record.coffee_name, record.cash_type, record.card, sourceName(record.source)]
+      .some(value => value.toLowerCase().includes(search)))
+  );
+};
+
+// Returns a sorted copy; ties keep their original order.
+export const sortTransactions = (
+  data: SalesRecord[],
+  { column, direction }: TransactionSort,
+  sourceName: (sourceId: string) => string
+) => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const valueOf = (record: SalesRecord) => (column === 'source' ? sourceName(record.source) : record[column]);
+  const compare = column === 'money'
+    ? (a: SalesRecord, b: SalesRecord) => a.money - b.money
+    : (a: SalesRecord, b: SalesRecord) => {
+      const left = String(valueOf(a));
+      const right = String(valueOf(b));
+      return left < right ? -1 : left > right ? 1 : 0;
+    };
+  return [...data].sort((a, b) => sign * compare(a, b));
+};
+
+export const transactionsToRows = (data: SalesRecord[], sourceName: (sourceId: string) => string) =>
+  data.map(record => ({
+    datetime: record.datetime,
+    product: record.coffee_name,
+    amount: record.money,
+    payment: record.cash_type,
+    card: record.card,
+    source: sourceName(record.source)
+  }));
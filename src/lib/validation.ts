@@ -0,0 +1,55 @@
+import Papa from 'papaparse';
+import type { RawRow } from './mapping';
+
+export type RejectionReason =
+  | 'missing_product'
+  | 'non_positive_amount'
+  | 'invalid_date'
+  | 'date_mismatch'
+  | 'unknown_payment_type';
+
+export interface RejectedRow {
+  // Row number in the file with the header as row 1; skipped blank lines are not counted.
+  line: number;
+  row: RawRow;
+  reasons: RejectionReason[];
+}
+
+export interface ImportReport {
+  fileName: string;
+  totalRows: number;
+  acceptedRows: number;
+  rejected: RejectedRow[];
+}
+
+const PAYMENT_TYPES: Record<string, string> = {
+  cash: 'cash',
+  gotowka: 'cash',
+  'gotówka': 'cash',
+  card: 'card',
+  karta: 'card',
+  credit: 'card',
+  debit: 'card'
+};
+
+export const normalisePaymentType = (value: string) => PAYMENT_TYPES[value.trim().toLowerCase()] ?? null;
+
+export const countByReason = (rejected: RejectedRow[]) =>
+  rejected.reduce((acc, { reasons }) => {
+    reasons.forEach(reason => {
+      acc[reason] = (acc[reason] || 0) + 1;
+    });
+    return acc;
+  }, {} as Partial<Record<RejectionReason, number>>);
+
+export const rejectedRowsToCsv = (rejected: RejectedRow[], reasonLabel: (reason: RejectionReason) => string) => {
+  const columns = Array.from(new Set(rejected.flatMap(({ row }) => Object.keys(row))));
+  return Papa.unparse({
+    fields: ['line', ...columns, 'reason'],
+    data: rejected.map(({ line, row, reasons }) => [
+      line,
+      ...columns.map(column => row[column] ?? ''),
+      reasons.map(reasonLabel).join('; ')
+    ])
+  });
+};
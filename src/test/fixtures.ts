@@ -0,0 +1,29 @@
+import Papa from 'papaparse';
+import index1 from '../index_1.csv?raw';
+import index2 from '../index_2.csv?raw';
+import { applyMapping, suggestMapping, suggestOptions, type RawRow } from '../lib/mapping';
+import type { SalesRecord } from '../types';
+
+const FIXTURES = {
+  'index_1.csv': index1,
+  'index_2.csv': index2
+};
+
+// Imports a sample export the same way the mapping wizard does with its suggested settings.
+export const loadFixture = (name: keyof typeof FIXTURES): SalesRecord[] => {
+  const { data, meta } = Papa.parse<RawRow>(FIXTURES[name], { header: true, skipEmptyLines: true });
+  const mapping = suggestMapping(meta.fields ?? []);
+  return applyMapping(data, mapping, suggestOptions(data, mapping, ','), name).records;
+};
+
+export const record = (overrides: Partial<SalesRecord>): SalesRecord => ({
+  date: '2024-03-01',
+  datetime: '2024-03-01 10:00:00',
+  cash_type: 'card',
+  card: 'ANON-1',
+  money: 10,
+  coffee_name: 'Latte',
+  hour: 10,
+  source: 'test',
+  ...overrides
+});
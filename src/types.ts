@@ -0,0 +1,22 @@
+import type { ImportReport } from './lib/validation';
+
+export interface SalesRecord {
+  date: string;
+  datetime: string;
+  cash_type: string;
+  card: string;
+  money: number;
+  coffee_name: string;
+  hour: number;
+  source: string;
+}
+
+export interface DataSource {
+  id: string;
+  name: string;
+  records: SalesRecord[];
+  enabled: boolean;
+  // ISO 4217 code the amounts of this source are in.
+  currency: string;
+  report: ImportReport;
+}
@@ -0,0 +1,115 @@
+import { detectInsights } from '../lib/anomalies';
+import { analyseBaskets } from '../lib/baskets';
+import { createProductResolver, productLabel, type CataloguedProduct } from '../lib/catalogue';
+import {
+  buildAnalyticsIndex,
+  queryAnalytics,
+  queryCustomers,
+  queryDays,
+  queryRecords,
+  queryTotals,
+  type AnalyticsIndex
+} from '../lib/analyticsIndex';
+import { createCrossFilterMatcher, frequenciesOf, isCrossFilterEmpty, type CrossFilter } from '../lib/crossFilter';
+import { DEFAULT_CURRENCY } from '../lib/currency';
+import { buildCohorts, profilesFromTotals } from '../lib/customers';
+import type { ResolvedDateRange } from '../lib/dateRange';
+import { forecastDemand } from '../lib/forecast';
+import type { AnalyticsWorkerRequest, AnalyticsWorkerResponse } from '../hooks/useAnalytics';
+import type { SalesRecord } from '../types';
+
+let records: SalesRecord[] = [];
+// The same records before currency conversion.
+let sourceRecords: SalesRecord[] = [];
+let index: AnalyticsIndex = [];
+
+const post = (message: AnalyticsWorkerResponse) => self.postMessage(message);
+
+// The chart selection as a cell matcher. Frequency buckets come from the selected period before
+// any chart filter, as drawn in the frequency chart.
+const matcherOf = (
+  range: ResolvedDateRange,
+  crossFilter: CrossFilter,
+  resolveProduct: (rawName: string) => CataloguedProduct
+) =>
+  isCrossFilterEmpty(crossFilter)
+    ? undefined
+    : createCrossFilterMatcher(crossFilter, {
+      resolveProduct,
+      frequencies: frequenciesOf(queryTotals(index, range).cards)
+    });
+
+const query = (request: Extract<AnalyticsWorkerRequest, { type: 'query' }>) => {
+  const resolveProduct = createProductResolver(request.catalogue);
+  const productOf = (name: string) => productLabel(
+    resolveProduct(name),
+    request.productGrouping,
+    category => request.categoryLabels[category]
+  );
+  const match = matcherOf(request.range, request.crossFilter, resolveProduct);
+  // Customer profiles name each customer's favourite product rather than its category.
+  const customers = queryCustomers(index, request.range, name => resolveProduct(name).product, match);
+  post({
+    type: 'query',
+    id: request.id,
+    analytics: queryAnalytics(index, request.range, productOf, match),
+    comparisonAnalytics: request.comparisonRange && queryAnalytics(index, request.comparisonRange, productOf, match),
+    days: queryDays(index, request.range, match),
+    profiles: profilesFromTotals(customers),
+    cohorts: buildCohorts(customers),
+    records: queryRecords(index, request.range, match)
+  });
+};
+
+const baskets = (request: Extract<AnalyticsWorkerRequest, { type: 'baskets' }>) => {
+  const resolveProduct = createProductResolver(request.catalogue);
+  const match = matcherOf(request.range, request.crossFilter, resolveProduct);
+  const selected = Array.from(queryRecords(index, request.range, match), position => records[position]);
+  post({
+    type: 'baskets',
+    id: request.id,
+    baskets: analyseBaskets(selected, request.gapMinutes, record => resolveProduct(record.coffee_name).product)
+  });
+};
+
+const forecast = (request: Extract<AnalyticsWorkerRequest, { type: 'forecast' }>) => {
+  const resolveProduct = createProductResolver(request.catalogue);
+  const match = matcherOf(request.range, request.crossFilter, resolveProduct);
+  const selected = Array.from(queryRecords(index, { from: null, to: null }, match), position => records[position]);
+  post({
+    type: 'forecast',
+    id: request.id,
+    forecast: forecastDemand(selected, record => resolveProduct(record.coffee_name).product, request.days)
+  });
+};
+
+const insights = (request: Extract<AnalyticsWorkerRequest, { type: 'insights' }>) => {
+  const resolveProduct = createProductResolver(request.catalogue);
+  post({
+    type: 'insights',
+    id: request.id,
+    insights: detectInsights(
+      records,
+      sourceRecords,
+      record => resolveProduct(record.coffee_name).product,
+      record => request.currencies[record.source] ?? DEFAULT_CURRENCY,
+      request.rules
+    )
+  });
+};
+
+self.onmessage = ({ data: request }: MessageEvent<AnalyticsWorkerRequest>) => {
+  if (request.type === 'load') {
+    records = request.records;
+    sourceRecords = request.sourceRecords ?? request.records;
+    index = buildAnalyticsIndex(records);
+  } else if (request.type === 'query') {
+    query(request);
+  } else if (request.type === 'baskets') {
+    baskets(request);
+  } else if (request.type === 'forecast') {
+    forecast(request);
+  } else {
+    insights(request);
+  }
+};
@@ -0,0 +1,84 @@
+import Papa from 'papaparse';
+import { applyMapping, type Delimiter, type RawRow } from '../lib/mapping';
+import type { CsvWorkerRequest, CsvWorkerResponse } from '../lib/csv';
+
+const CHUNK_SIZE = 1024 * 1024;
+const SAMPLE_ROWS = 20;
+const PREVIEW_ROWS = 5;
+
+// Rows of the last parsed file stay here, so mapping previews never copy them to the page.
+let rows: RawRow[] = [];
+let latestParse = -1;
+
+const post = (message: CsvWorkerResponse) => self.postMessage(message);
+
+const parse = (id: number, file: File, delimiter: Delimiter) => {
+  latestParse = id;
+  const parsed: RawRow[] = [];
+  let headers: string[] = [];
+  let detected = delimiter;
+
+  // Values are kept as strings: decimal commas and date formats are only known after the mapping step.
+  Papa.parse<RawRow>(file, {
+    header: true,
+    delimiter,
+    dynamicTyping: false,
+    skipEmptyLines: true,
+    chunkSize: CHUNK_SIZE,
+    transformHeader: header => header.trim(),
+    chunk: (results, parser) => {
+      // A newer request, e.g. after the user picked another delimiter, supersedes this one.
+      if (id !== latestParse) {
+        parser.abort();
+        return;
+      }
+      headers = (results.meta.fields ?? []).filter(Boolean);
+      detected = (results.meta.delimiter as Delimiter) || detected;
+      results.data.forEach(row => {
+        if (row !== null && typeof row === 'object') parsed.push(row);
+      });
+      post({ type: 'progress', id, loaded: Math.min(results.meta.cursor, file.size), total: file.size });
+    },
+    complete: () => {
+      // Settles the superseded request too; aborting the parser also ends up here.
+      if (id !== latestParse) {
+        post({ type: 'error', id, code: 'superseded' });
+        return;
+      }
+      rows = parsed;
+      if (headers.length === 0) {
+        post({ type: 'error', id, code: 'noHeader' });
+        return;
+      }
+      post({ type: 'parsed', id, headers, rowCount: rows.length, sample: rows.slice(0, SAMPLE_ROWS), delimiter: detected });
+    },
+    error: (error) => {
+      post({ type: 'error', id, code: 'parseFailed', detail: error.message });
+    }
+  });
+};
+
+self.onmessage = ({ data: request }: MessageEvent<CsvWorkerRequest>) => {
+  try {
+    if (request.type === 'parse') {
+      parse(request.id, request.file, request.delimiter);
+      return;
+    }
+    const result = applyMapping(rows, request.mapping, request.options, request.source);
+    if (request.type === 'preview') {
+      post({
+        type: 'preview',
+        id: request.id,
+        preview: {
+          accepted: result.records.length,
+          rejected: result.rejected.length,
+          sample: result.records.slice(0, PREVIEW_ROWS)
+        }
+      });
+    } else {
+      post({ type: 'mapped', id: request.id, result });
+    }
+  } catch (err) {
+    post({ type: 'error', id: request.id, code: 'mappingFailed', detail: err instanceof Error ? err.message : '' });
+  }
+};